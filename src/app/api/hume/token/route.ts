@@ -0,0 +1,163 @@
+import { NextResponse } from "next/server"
+import { TokenErrorResponse } from "@/types/hume"
+import { createLogger } from "@/lib/logger"
+
+const log = createLogger("api:token")
+
+const HUME_TOKEN_URL = "https://api.hume.ai/oauth2-cc/token"
+
+// Refresh the cached token this long before Hume expires it
+const REFRESH_MARGIN_MS = 60_000
+
+interface CachedToken {
+  accessToken: string
+  expiresAt: number
+}
+
+let cachedToken: CachedToken | null = null
+let pendingToken: Promise<CachedToken> | null = null
+
+/**
+ * Hume refused the token request, status is the upstream HTTP status
+ */
+class HumeTokenError extends Error {
+  readonly status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = "HumeTokenError"
+    this.status = status
+  }
+}
+
+const errorResponse = (
+  status: number,
+  code: TokenErrorResponse["code"],
+  error: string
+) =>
+  NextResponse.json<TokenErrorResponse>(
+    { error, code },
+    { status, headers: { "Cache-Control": "no-store" } }
+  )
+
+/**
+ * Exchange the server-only API key and secret key for a short-lived access token
+ */
+const requestAccessToken = async (
+  apiKey: string,
+  secretKey: string
+): Promise<CachedToken> => {
+  const credentials = Buffer.from(`${apiKey}:${secretKey}`).toString("base64")
+
+  const response = await fetch(HUME_TOKEN_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Authorization: `Basic ${credentials}`,
+    },
+    body: new URLSearchParams({ grant_type: "client_credentials" }).toString(),
+    cache: "no-store",
+  })
+
+  if (!response.ok) {
+    throw new HumeTokenError(
+      `Hume token request failed with status ${response.status} ${response.statusText}`,
+      response.status
+    )
+  }
+
+  const data = await response.json()
+
+  if (typeof data?.access_token !== "string") {
+    throw new Error("Hume token response did not include an access token")
+  }
+
+  // Hume issues tokens valid for 30 minutes unless told otherwise
+  const expiresIn = typeof data.expires_in === "number" ? data.expires_in : 1800
+
+  return {
+    accessToken: data.access_token,
+    expiresAt: Date.now() + expiresIn * 1000,
+  }
+}
+
+/**
+ * Return a cached token, minting a new one when it is close to expiry
+ */
+const getAccessToken = async (
+  apiKey: string,
+  secretKey: string
+): Promise<CachedToken> => {
+  if (cachedToken && cachedToken.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    return cachedToken
+  }
+
+  // Share a single in-flight request between concurrent callers
+  if (!pendingToken) {
+    pendingToken = requestAccessToken(apiKey, secretKey)
+      .then((token) => {
+        cachedToken = token
+        return token
+      })
+      .finally(() => {
+        pendingToken = null
+      })
+  }
+
+  return pendingToken
+}
+
+/**
+ * Token broker for the browser client
+ * Keeps HUME_API_KEY and HUME_SECRET_KEY on the server and hands out access tokens
+ */
+export async function GET() {
+  const apiKey = process.env.HUME_API_KEY
+  const secretKey = process.env.HUME_SECRET_KEY
+
+  if (!apiKey || !secretKey) {
+    const missing = [
+      !apiKey && "HUME_API_KEY",
+      !secretKey && "HUME_SECRET_KEY",
+    ].filter(Boolean)
+
+    log.error("Hume token broker misconfigured, missing:", missing)
+    return errorResponse(
+      500,
+      "missing_keys",
+      `Server is missing ${missing.join(
+        " and "
+      )}. Set them in the server environment (not NEXT_PUBLIC_).`
+    )
+  }
+
+  try {
+    const token = await getAccessToken(apiKey, secretKey)
+
+    return NextResponse.json(token, {
+      headers: { "Cache-Control": "no-store" },
+    })
+  } catch (error) {
+    log.error("Failed to fetch Hume access token:", error)
+
+    // Rejected credentials will not fix themselves, so clients should not retry
+    if (
+      error instanceof HumeTokenError &&
+      [400, 401, 403].includes(error.status)
+    ) {
+      return errorResponse(
+        401,
+        "rejected_keys",
+        "Hume rejected HUME_API_KEY / HUME_SECRET_KEY. Check the keys in the server environment."
+      )
+    }
+
+    return errorResponse(
+      502,
+      "token_unavailable",
+      `Could not obtain a Hume access token: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { POST } from "./route"
+
+const { write } = vi.hoisted(() => ({ write: vi.fn() }))
+
+vi.mock("./sinks", () => ({
+  createTelemetrySink: () => ({ write }),
+}))
+
+const post = (body: unknown) =>
+  POST(
+    new Request("http://localhost/api/telemetry", {
+      method: "POST",
+      body: JSON.stringify(body),
+    })
+  )
+
+const turn = {
+  type: "turn",
+  at: 1000,
+  isTyped: false,
+  userMessageMs: 120,
+  assistantMessageMs: 480,
+  firstAudioMs: null,
+  assistantEndMs: 2100,
+}
+
+beforeEach(() => {
+  write.mockReset()
+})
+
+describe("POST /api/telemetry", () => {
+  it("stores only the known fields of each event", async () => {
+    const response = await post({
+      clientId: "client-1",
+      events: [
+        { ...turn, userAgent: "leaked", nested: { big: "x" } },
+        { type: "playback_error", at: 2000, message: "e".repeat(2000) },
+      ],
+    })
+
+    expect(response.status).toBe(204)
+    const [records] = write.mock.lastCall!
+    expect(records[0]).toEqual({
+      ...turn,
+      clientId: "client-1",
+      receivedAt: expect.any(String),
+    })
+    expect(records[1].message).toHaveLength(500)
+  })
+
+  it.each([
+    ["an unknown type", { type: "page_view", at: 1 }],
+    ["a missing timestamp", { type: "reconnect", attempt: 1 }],
+    ["a malformed timing", { ...turn, firstAudioMs: "fast" }],
+    ["a negative count", { type: "dropped_chunks", at: 1, count: -3 }],
+    ["a non-string message", { type: "playback_error", at: 1, message: {} }],
+  ])("rejects a batch with %s", async (_, event) => {
+    const response = await post({ clientId: "client-1", events: [event] })
+
+    expect(response.status).toBe(400)
+    expect(write).not.toHaveBeenCalled()
+  })
+
+  it("rejects oversized batches and client ids", async () => {
+    const reconnect = { type: "reconnect", at: 1, attempt: 1 }
+
+    expect(
+      (await post({ clientId: "c", events: Array(51).fill(reconnect) })).status
+    ).toBe(400)
+    expect(
+      (await post({ clientId: "c".repeat(65), events: [reconnect] })).status
+    ).toBe(400)
+    expect(write).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,130 @@
+import { NextResponse } from "next/server"
+import { TelemetryEvent } from "@/types/hume"
+import { createLogger } from "@/lib/logger"
+import { TelemetrySink, createTelemetrySink } from "./sinks"
+
+const log = createLogger("api:telemetry")
+
+// Clients flush at 50 events, a larger batch is not ours
+const MAX_EVENTS_PER_BATCH = 50
+const MAX_CLIENT_ID_LENGTH = 64
+// Browser error messages are short, this keeps a stack trace or a page out
+const MAX_MESSAGE_LENGTH = 500
+
+const TURN_TIMING_FIELDS = [
+  "userMessageMs",
+  "assistantMessageMs",
+  "firstAudioMs",
+  "assistantEndMs",
+] as const
+
+let sink: TelemetrySink | null = null
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value)
+
+const isCount = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0
+
+// A stage the turn never reached is null
+const isTiming = (value: unknown): value is number | null =>
+  value === null || isFiniteNumber(value)
+
+/**
+ * Copy the fields of a known event, null when one is missing or malformed
+ * Anything else the client sends never reaches the sink
+ */
+const parseTelemetryEvent = (value: unknown): TelemetryEvent | null => {
+  if (typeof value !== "object" || value === null) return null
+  const event = value as Record<string, unknown>
+  const { at } = event
+  if (!isFiniteNumber(at)) return null
+
+  switch (event.type) {
+    case "turn": {
+      if (typeof event.isTyped !== "boolean") return null
+      const timings = {} as Record<
+        (typeof TURN_TIMING_FIELDS)[number],
+        number | null
+      >
+      for (const field of TURN_TIMING_FIELDS) {
+        const timing = event[field]
+        if (!isTiming(timing)) return null
+        timings[field] = timing
+      }
+      return { type: "turn", at, isTyped: event.isTyped, ...timings }
+    }
+    case "reconnect":
+      return isCount(event.attempt)
+        ? { type: "reconnect", at, attempt: event.attempt }
+        : null
+    case "dropped_chunks":
+      return isCount(event.count)
+        ? { type: "dropped_chunks", at, count: event.count }
+        : null
+    case "playback_error":
+      return typeof event.message === "string"
+        ? {
+            type: "playback_error",
+            at,
+            message: event.message.slice(0, MAX_MESSAGE_LENGTH),
+          }
+        : null
+    default:
+      return null
+  }
+}
+
+const badRequest = (error: string) =>
+  NextResponse.json({ error }, { status: 400 })
+
+/**
+ * Collect batched client metrics and hand them to the configured sink
+ */
+export async function POST(request: Request) {
+  let body: { clientId?: unknown; events?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest("Body is not JSON")
+  }
+
+  const { clientId, events } = body ?? {}
+  if (
+    typeof clientId !== "string" ||
+    clientId.length === 0 ||
+    clientId.length > MAX_CLIENT_ID_LENGTH
+  ) {
+    return badRequest("Missing or invalid clientId")
+  }
+  if (!Array.isArray(events) || events.length > MAX_EVENTS_PER_BATCH) {
+    return badRequest(
+      `events must be an array of up to ${MAX_EVENTS_PER_BATCH}`
+    )
+  }
+
+  const accepted: TelemetryEvent[] = []
+  for (const value of events) {
+    const event = parseTelemetryEvent(value)
+    if (!event) {
+      return badRequest("events contains an unknown or malformed event")
+    }
+    accepted.push(event)
+  }
+
+  const receivedAt = new Date().toISOString()
+  try {
+    sink ??= createTelemetrySink()
+    await sink.write(
+      accepted.map((event) => ({ ...event, clientId, receivedAt }))
+    )
+  } catch (error) {
+    log.error("Failed to write telemetry:", error)
+    return NextResponse.json(
+      { error: "Telemetry could not be stored" },
+      { status: 500 }
+    )
+  }
+
+  return new NextResponse(null, { status: 204 })
+}
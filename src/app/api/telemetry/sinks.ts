@@ -0,0 +1,76 @@
+import { appendFile, mkdir } from "fs/promises"
+import path from "path"
+import { TelemetryEvent } from "@/types/hume"
+
+// One stored event, stamped on arrival
+export type TelemetryRecord = TelemetryEvent & {
+  clientId: string
+  receivedAt: string
+}
+
+/**
+ * Where accepted telemetry ends up
+ * Add a sink by implementing write and naming it in createTelemetrySink
+ */
+export interface TelemetrySink {
+  write: (records: TelemetryRecord[]) => Promise<void>
+}
+
+const DEFAULT_TELEMETRY_FILE = ".telemetry/events.jsonl"
+
+/**
+ * JSON Lines on stdout, for log collectors
+ */
+export const createConsoleSink = (): TelemetrySink => ({
+  write: async (records) => {
+    process.stdout.write(
+      records.map((record) => JSON.stringify(record) + "\n").join("")
+    )
+  },
+})
+
+/**
+ * Append JSON Lines to a file, created on first write
+ */
+export const createFileSink = (filePath: string): TelemetrySink => {
+  let ready: Promise<unknown> | null = null
+
+  return {
+    write: async (records) => {
+      ready ??= mkdir(path.dirname(filePath), { recursive: true })
+      await ready
+      await appendFile(
+        filePath,
+        records.map((record) => JSON.stringify(record) + "\n").join("")
+      )
+    },
+  }
+}
+
+/**
+ * Drop everything, turns telemetry off
+ */
+export const createNullSink = (): TelemetrySink => ({
+  write: async () => {},
+})
+
+/**
+ * Sink named by TELEMETRY_SINK: "console" (default), "file" or "none"
+ * The file sink writes to TELEMETRY_FILE, relative to the server's working directory
+ */
+export const createTelemetrySink = (
+  name = process.env.TELEMETRY_SINK ?? "console"
+): TelemetrySink => {
+  switch (name) {
+    case "file":
+      return createFileSink(
+        path.resolve(process.env.TELEMETRY_FILE ?? DEFAULT_TELEMETRY_FILE)
+      )
+    case "none":
+      return createNullSink()
+    case "console":
+      return createConsoleSink()
+    default:
+      throw new Error(`Unknown TELEMETRY_SINK "${name}"`)
+  }
+}
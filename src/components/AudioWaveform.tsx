@@ -0,0 +1,61 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { AudioLevelListener } from "@/types/hume"
+
+interface AudioWaveformProps {
+  subscribeAudioLevels: (listener: AudioLevelListener) => () => void
+  width?: number
+  height?: number
+  color?: string
+}
+
+/**
+ * Live waveform of the assistant's playback, drawn straight to a canvas
+ */
+export const AudioWaveform: React.FC<AudioWaveformProps> = ({
+  subscribeAudioLevels,
+  width = 120,
+  height = 24,
+  color = "#86efac",
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    return subscribeAudioLevels(({ output }) => {
+      const canvas = canvasRef.current
+      const context = canvas?.getContext("2d")
+      if (!canvas || !context) return
+
+      context.clearRect(0, 0, canvas.width, canvas.height)
+      if (!output) return
+
+      const { waveform } = output
+      const middle = canvas.height / 2
+      const step = canvas.width / waveform.length
+
+      context.strokeStyle = color
+      context.lineWidth = 1.5
+      context.beginPath()
+      for (let i = 0; i < waveform.length; i++) {
+        const y = middle + waveform[i] * middle
+        if (i === 0) {
+          context.moveTo(0, y)
+        } else {
+          context.lineTo(i * step, y)
+        }
+      }
+      context.stroke()
+    })
+  }, [subscribeAudioLevels, color])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className="block"
+      aria-hidden="true"
+    />
+  )
+}
@@ -0,0 +1,134 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2, RefreshCw, Wifi, WifiOff } from "lucide-react"
+import { clsx } from "clsx"
+import { ConnectionState } from "@/types/hume"
+import { MAX_RECONNECT_ATTEMPTS } from "@/lib/connectionPolicy"
+
+interface ConnectionStatusProps {
+  connectionState: ConnectionState
+  onConnect: () => void
+  onDisconnect: () => void
+  onRetryNow: () => void
+}
+
+/**
+ * Seconds left until a timestamp, re-rendered every second while counting down
+ */
+const useCountdown = (target: number | null): number | null => {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (target === null) return
+
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [target])
+
+  if (target === null) return null
+  return Math.max(0, Math.ceil((target - now) / 1000))
+}
+
+/**
+ * Header connection toggle with the live connection state and retry controls
+ */
+export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
+  connectionState,
+  onConnect,
+  onDisconnect,
+  onRetryNow,
+}) => {
+  const countdown = useCountdown(
+    connectionState.status === "reconnecting"
+      ? connectionState.nextRetryAt
+      : null
+  )
+
+  const isActive =
+    connectionState.status === "open" ||
+    connectionState.status === "connecting" ||
+    connectionState.status === "reconnecting"
+  const canRetry =
+    connectionState.status === "reconnecting" ||
+    connectionState.status === "failed"
+
+  /**
+   * Text describing the current state
+   */
+  const getLabel = (): string => {
+    switch (connectionState.status) {
+      case "idle":
+        return "Disconnected"
+      case "connecting":
+        return "Connecting..."
+      case "open":
+        return "Connected"
+      case "reconnecting":
+        if (connectionState.isOffline) {
+          return "Offline, waiting for network"
+        }
+        return `Reconnecting in ${countdown ?? 0}s (attempt ${
+          connectionState.attempt
+        }/${MAX_RECONNECT_ATTEMPTS})`
+      case "closing":
+        return "Disconnecting..."
+      case "failed":
+        return "Connection failed"
+    }
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <button
+        onClick={isActive ? onDisconnect : onConnect}
+        disabled={connectionState.status === "closing"}
+        className={clsx(
+          "p-2 rounded-lg transition-colors backdrop-blur-sm disabled:opacity-50",
+          connectionState.status === "open"
+            ? "text-green-400 bg-green-400/20 hover:bg-green-400/30"
+            : isActive
+              ? "text-yellow-400 bg-yellow-400/20 hover:bg-yellow-400/30"
+              : "text-red-400 bg-red-400/20 hover:bg-red-400/30"
+        )}
+        title={isActive ? "Disconnect from Hume EVI" : "Connect to Hume EVI"}
+      >
+        {connectionState.status === "open" ? (
+          <Wifi className="w-5 h-5" />
+        ) : connectionState.status === "connecting" ? (
+          <Loader2 className="w-5 h-5 animate-spin" />
+        ) : (
+          <WifiOff className="w-5 h-5" />
+        )}
+      </button>
+      <span
+        className={clsx(
+          "text-xs font-medium",
+          connectionState.status === "open"
+            ? "text-green-400"
+            : isActive
+              ? "text-yellow-400"
+              : "text-red-400"
+        )}
+        title={
+          connectionState.status === "failed"
+            ? connectionState.reason
+            : undefined
+        }
+      >
+        {getLabel()}
+      </span>
+      {canRetry && (
+        <button
+          onClick={onRetryNow}
+          className="flex items-center px-2 py-1 text-xs text-gray-300 hover:text-white bg-gray-800/90 hover:bg-gray-700/90 backdrop-blur-sm rounded-lg border border-gray-700 transition-colors"
+          title="Try to connect now"
+        >
+          <RefreshCw className="w-3 h-3 mr-1" />
+          Retry now
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+"use client"
+
+import { useEffect, useState, useSyncExternalStore } from "react"
+import { X } from "lucide-react"
+import { DiagnosticsSnapshot, HumeConfig, VoiceSettings } from "@/types/hume"
+import {
+  LOG_LEVELS,
+  LogLevel,
+  getLogLevel,
+  getRecentLogEntries,
+  setLogLevel,
+  subscribeToLogs,
+} from "@/lib/logger"
+
+interface DiagnosticsOverlayProps {
+  getDiagnostics: () => DiagnosticsSnapshot
+  humeConfig: HumeConfig
+  voiceSettings: VoiceSettings
+  onClose: () => void
+}
+
+const REFRESH_MS = 500
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString()
+
+const Row: React.FC<{ label: string; value: React.ReactNode }> = ({
+  label,
+  value,
+}) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-gray-400">{label}</span>
+    <span className="text-gray-100 text-right break-all">{value}</span>
+  </div>
+)
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({
+  title,
+  children,
+}) => (
+  <div className="space-y-1">
+    <h3 className="text-gray-300 font-semibold">{title}</h3>
+    {children}
+  </div>
+)
+
+/**
+ * Live connection, traffic and audio readings for bug reports
+ * Opened with Ctrl+Shift+D, the values are polled so the chat does not re-render
+ */
+export const DiagnosticsOverlay: React.FC<DiagnosticsOverlayProps> = ({
+  getDiagnostics,
+  humeConfig,
+  voiceSettings,
+  onClose,
+}) => {
+  const [snapshot, setSnapshot] = useState(getDiagnostics)
+  const [now, setNow] = useState(() => Date.now())
+  const logLevel = useSyncExternalStore(
+    subscribeToLogs,
+    () => getLogLevel(),
+    () => getLogLevel()
+  )
+  const [recentEntries, setRecentEntries] = useState(getRecentLogEntries)
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setSnapshot(getDiagnostics())
+      setNow(Date.now())
+    }, REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [getDiagnostics])
+
+  useEffect(
+    () => subscribeToLogs(() => setRecentEntries(getRecentLogEntries())),
+    []
+  )
+
+  const { connectionState, traffic, audioInput } = snapshot
+  const recentProblems = [...recentEntries].reverse()
+
+  return (
+    <div className="fixed top-4 right-4 z-50 w-96 max-h-[90vh] overflow-y-auto bg-black/90 backdrop-blur-sm border border-gray-700 rounded-lg p-4 font-mono text-xs space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-white">Diagnostics</h2>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-white rounded transition-colors"
+          title="Close (Ctrl+Shift+D)"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <Section title="Connection">
+        <Row
+          label="State"
+          value={
+            connectionState.status === "failed"
+              ? `failed: ${connectionState.reason}`
+              : connectionState.status === "reconnecting"
+                ? `reconnecting (attempt ${connectionState.attempt})`
+                : connectionState.status
+          }
+        />
+        <Row label="Chat id" value={snapshot.chatIds?.chatId ?? "-"} />
+        <Row label="Chat group" value={snapshot.chatIds?.chatGroupId ?? "-"} />
+        <Row
+          label="Last frame"
+          value={
+            snapshot.lastInboundAt === null
+              ? "-"
+              : `${((now - snapshot.lastInboundAt) / 1000).toFixed(1)} s ago`
+          }
+        />
+        <Row
+          label="Response latency"
+          value={
+            snapshot.responseLatencyMs === null
+              ? "-"
+              : `${snapshot.responseLatencyMs} ms`
+          }
+        />
+      </Section>
+
+      <Section title="Traffic">
+        <Row
+          label="In"
+          value={`${traffic.framesIn} frames, ${formatBytes(traffic.bytesIn)}`}
+        />
+        <Row
+          label="Out"
+          value={`${traffic.framesOut} frames, ${formatBytes(traffic.bytesOut)}`}
+        />
+      </Section>
+
+      <Section title="Audio">
+        <Row label="Capture mode" value={snapshot.captureMode ?? "-"} />
+        <Row
+          label="Input queue"
+          value={`${audioInput.queuedChunks} chunks, ${formatBytes(audioInput.queuedBytes)}`}
+        />
+        <Row
+          label="Socket buffer"
+          value={formatBytes(audioInput.bufferedAmount)}
+        />
+        <Row
+          label="Input dropped"
+          value={`${audioInput.droppedChunks} chunks`}
+        />
+        <Row
+          label="Playback queue"
+          value={`${snapshot.playbackBufferedSeconds.toFixed(2)} s`}
+        />
+      </Section>
+
+      <Section title="Config">
+        <Row label="Config id" value={humeConfig.configId ?? "default"} />
+        <Row
+          label="Config version"
+          value={humeConfig.configVersion ?? "latest"}
+        />
+        <Row label="Base URL" value={humeConfig.baseUrl ?? "-"} />
+        {Object.entries(voiceSettings).map(([key, value]) => (
+          <Row key={key} label={key} value={String(value)} />
+        ))}
+      </Section>
+
+      <Section title="Logging">
+        <Row
+          label="Console level"
+          value={
+            <select
+              value={logLevel}
+              onChange={(e) => setLogLevel(e.target.value as LogLevel)}
+              className="px-2 py-1 bg-gray-800 rounded text-gray-100 border border-gray-700"
+            >
+              {LOG_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {level}
+                </option>
+              ))}
+            </select>
+          }
+        />
+      </Section>
+
+      <Section title="Recent errors">
+        {recentProblems.length === 0 ? (
+          <p className="text-gray-500">None</p>
+        ) : (
+          recentProblems.map((entry, index) => (
+            <p
+              key={`${entry.at}-${index}`}
+              className={
+                entry.level === "error" ? "text-red-300" : "text-yellow-300"
+              }
+            >
+              {formatTime(entry.at)} [{entry.namespace}] {entry.message}
+            </p>
+          ))
+        )}
+      </Section>
+    </div>
+  )
+}
@@ -0,0 +1,147 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Activity, ChevronDown, ChevronUp } from "lucide-react"
+import { VoiceMessage } from "@/types/hume"
+import { buildEmotionTimeline } from "@/lib/emotions"
+
+interface EmotionTimelineProps {
+  messages: VoiceMessage[]
+  topCount?: number
+}
+
+const LINE_COLORS = ["#60a5fa", "#f472b6", "#facc15", "#4ade80", "#c084fc"]
+
+const CHART_WIDTH = 600
+const CHART_HEIGHT = 160
+const CHART_PADDING = 12
+
+/**
+ * Collapsible chart of the dominant emotions per turn across the conversation
+ */
+export const EmotionTimeline: React.FC<EmotionTimelineProps> = ({
+  messages,
+  topCount = 5,
+}) => {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const timeline = useMemo(
+    () => buildEmotionTimeline(messages, topCount),
+    [messages, topCount]
+  )
+
+  if (timeline.turns.length === 0) return null
+
+  const innerWidth = CHART_WIDTH - CHART_PADDING * 2
+  const innerHeight = CHART_HEIGHT - CHART_PADDING * 2
+  const maxScore = Math.max(
+    0.1,
+    ...timeline.turns.flatMap((turn) => Object.values(turn.scores))
+  )
+
+  /**
+   * Map a turn index and score to chart coordinates
+   */
+  const toPoint = (index: number, score: number) => {
+    const x =
+      CHART_PADDING +
+      (timeline.turns.length === 1
+        ? innerWidth / 2
+        : (index / (timeline.turns.length - 1)) * innerWidth)
+    const y = CHART_PADDING + innerHeight * (1 - score / maxScore)
+    return { x, y }
+  }
+
+  return (
+    <div className="bg-gray-900/90 backdrop-blur-sm border-b border-gray-800/50">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-2 text-sm text-gray-300 hover:text-white transition-colors"
+      >
+        <span className="flex items-center space-x-2">
+          <Activity className="w-4 h-4" />
+          <span>Emotion timeline</span>
+          <span className="text-xs text-gray-500">
+            {timeline.turns.length} turns
+          </span>
+        </span>
+        {isOpen ? (
+          <ChevronUp className="w-4 h-4" />
+        ) : (
+          <ChevronDown className="w-4 h-4" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-2">
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            className="w-full h-40"
+            preserveAspectRatio="none"
+          >
+            {/* Turn markers, user turns in blue, assistant turns in gray */}
+            {timeline.turns.map((turn, index) => {
+              const { x } = toPoint(index, 0)
+              return (
+                <line
+                  key={turn.messageId}
+                  x1={x}
+                  x2={x}
+                  y1={CHART_PADDING}
+                  y2={CHART_HEIGHT - CHART_PADDING}
+                  stroke={
+                    turn.type === "user"
+                      ? "rgba(96,165,250,0.25)"
+                      : "rgba(156,163,175,0.2)"
+                  }
+                  strokeDasharray="2 4"
+                >
+                  <title>
+                    {`${
+                      turn.type === "user" ? "You" : "Freja"
+                    } · ${turn.timestamp.toLocaleTimeString()}`}
+                  </title>
+                </line>
+              )
+            })}
+
+            {timeline.emotions.map((emotion, emotionIndex) => (
+              <polyline
+                key={emotion}
+                fill="none"
+                stroke={LINE_COLORS[emotionIndex % LINE_COLORS.length]}
+                strokeWidth="2"
+                strokeLinejoin="round"
+                points={timeline.turns
+                  .map((turn, index) => {
+                    const { x, y } = toPoint(index, turn.scores[emotion])
+                    return `${x},${y}`
+                  })
+                  .join(" ")}
+              />
+            ))}
+          </svg>
+
+          {/* Legend */}
+          <div className="flex flex-wrap gap-3">
+            {timeline.emotions.map((emotion, emotionIndex) => (
+              <span
+                key={emotion}
+                className="flex items-center space-x-1 text-xs text-gray-300"
+              >
+                <span
+                  className="inline-block w-3 h-3 rounded-full"
+                  style={{
+                    backgroundColor:
+                      LINE_COLORS[emotionIndex % LINE_COLORS.length],
+                  }}
+                />
+                <span>{emotion}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+"use client"
+
+import { useEffect } from "react"
+import { AlertTriangle, ExternalLink, X, XCircle } from "lucide-react"
+import { clsx } from "clsx"
+import { AppError, RecoveryAction } from "@/types/hume"
+import { HUME_API_KEYS_URL } from "@/lib/appErrors"
+
+interface ErrorBannersProps {
+  errors: AppError[]
+  onAction: (action: RecoveryAction, error: AppError) => void
+  onDismiss: (id: string) => void
+}
+
+// Warnings report something already handled, so they go away on their own
+const WARNING_TIMEOUT_MS = 8000
+
+const ACTION_LABELS: Record<RecoveryAction, string> = {
+  "retry-connection": "Retry connection",
+  "grant-microphone": "Grant microphone access",
+  "check-api-key": "Check API key",
+  "choose-device": "Choose device",
+}
+
+/**
+ * One problem with its recovery actions
+ */
+const ErrorBanner: React.FC<{
+  error: AppError
+  onAction: ErrorBannersProps["onAction"]
+  onDismiss: ErrorBannersProps["onDismiss"]
+}> = ({ error, onAction, onDismiss }) => {
+  const isWarning = error.severity === "warning"
+
+  useEffect(() => {
+    if (!isWarning) return
+    const timeout = setTimeout(() => onDismiss(error.id), WARNING_TIMEOUT_MS)
+    return () => clearTimeout(timeout)
+  }, [isWarning, error.id, onDismiss])
+
+  const Icon = isWarning ? AlertTriangle : XCircle
+
+  return (
+    <div
+      role={isWarning ? "status" : "alert"}
+      className={clsx(
+        "flex items-start space-x-3 px-4 py-3 rounded-lg bg-black/80 backdrop-blur-sm border text-sm",
+        isWarning
+          ? "border-yellow-400/30 text-yellow-200"
+          : "border-red-400/30 text-red-200"
+      )}
+    >
+      <Icon className="w-4 h-4 mt-0.5 shrink-0" />
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className="font-semibold">
+          {error.title}
+          {error.code && (
+            <span className="ml-2 font-mono text-xs text-gray-400">
+              {error.code}
+            </span>
+          )}
+        </p>
+        <p className="text-gray-300">{error.message}</p>
+        {error.actions.length > 0 && (
+          <div className="flex flex-wrap gap-2 pt-1">
+            {error.actions.map((action) =>
+              action === "check-api-key" ? (
+                <a
+                  key={action}
+                  href={HUME_API_KEYS_URL}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center px-3 py-1 rounded-md bg-gray-800/80 hover:bg-gray-700/80 text-xs text-white transition-colors"
+                >
+                  {ACTION_LABELS[action]}
+                  <ExternalLink className="w-3 h-3 ml-1" />
+                </a>
+              ) : (
+                <button
+                  key={action}
+                  onClick={() => onAction(action, error)}
+                  className="px-3 py-1 rounded-md bg-gray-800/80 hover:bg-gray-700/80 text-xs text-white transition-colors"
+                >
+                  {ACTION_LABELS[action]}
+                </button>
+              )
+            )}
+          </div>
+        )}
+      </div>
+      <button
+        onClick={() => onDismiss(error.id)}
+        className="p-1 text-gray-400 hover:text-white rounded transition-colors"
+        title="Dismiss"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  )
+}
+
+/**
+ * Stack of dismissible error banners and warning toasts above the conversation
+ */
+export const ErrorBanners: React.FC<ErrorBannersProps> = ({
+  errors,
+  onAction,
+  onDismiss,
+}) => {
+  if (errors.length === 0) return null
+
+  return (
+    <div className="px-4 pt-3 space-y-2">
+      {errors.map((error) => (
+        <ErrorBanner
+          key={error.id}
+          error={error}
+          onAction={onAction}
+          onDismiss={onDismiss}
+        />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Download, Loader2, Upload } from "lucide-react"
+import {
+  ConversationSession,
+  ConversationSessionSummary,
+  VoiceMessage,
+} from "@/types/hume"
+import {
+  downloadBlob,
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportConversation,
+} from "@/lib/export/conversationExport"
+import { parseConversationExport } from "@/lib/export/conversationJson"
+import { createLogger } from "@/lib/logger"
+
+const log = createLogger("export")
+
+interface ExportMenuProps {
+  messages: VoiceMessage[]
+  // Stored session the transcript belongs to, if it was saved yet
+  session?: ConversationSessionSummary
+  onImport: (session: ConversationSession) => Promise<unknown>
+}
+
+/**
+ * Header menu that exports the transcript and imports JSON exports
+ */
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  messages,
+  session,
+  onImport,
+}) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | "import" | null>(
+    null
+  )
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusyFormat(format)
+    setError(null)
+
+    try {
+      const { blob, fileName } = await exportConversation(
+        {
+          id: session?.id ?? "unsaved",
+          title: session?.title ?? "Conversation",
+          chatId: session?.chatId,
+          chatGroupId: session?.chatGroupId,
+          createdAt: session?.createdAt ?? messages[0].timestamp,
+          updatedAt: session?.updatedAt ?? new Date(),
+          messages,
+        },
+        format
+      )
+      downloadBlob(blob, fileName)
+      setIsOpen(false)
+    } catch (exportError) {
+      log.error("Failed to export conversation:", exportError)
+      setError("Export failed, see the console for details")
+    } finally {
+      setBusyFormat(null)
+    }
+  }
+
+  const handleImportFile = async (file: File) => {
+    setBusyFormat("import")
+    setError(null)
+
+    try {
+      await onImport(parseConversationExport(await file.text()))
+      setIsOpen(false)
+    } catch (importError) {
+      log.error("Failed to import conversation:", importError)
+      setError(
+        importError instanceof Error ? importError.message : "Import failed"
+      )
+    } finally {
+      setBusyFormat(null)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => {
+          setIsOpen(!isOpen)
+          setError(null)
+        }}
+        className="p-2 text-gray-400 hover:text-white hover:bg-gray-800/50 backdrop-blur-sm rounded-lg transition-colors"
+        title="Export or import conversation"
+      >
+        <Download className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-30 mt-2 w-64 p-2 space-y-1 bg-gray-900/95 backdrop-blur-md rounded-lg border border-gray-700 shadow-xl">
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={messages.length === 0 || busyFormat !== null}
+              className="w-full flex items-center justify-between px-3 py-2 text-sm text-left text-gray-200 hover:bg-gray-800/90 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {label}
+              {busyFormat === format && (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              )}
+            </button>
+          ))}
+
+          <div className="border-t border-gray-800/50 pt-1">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={busyFormat !== null}
+              className="w-full flex items-center px-3 py-2 text-sm text-left text-gray-200 hover:bg-gray-800/90 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {busyFormat === "import" ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4 mr-2" />
+              )}
+              Import JSON...
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0]
+                // Allow picking the same file again
+                event.target.value = ""
+                if (file) handleImportFile(file)
+              }}
+            />
+          </div>
+
+          {error && <p className="px-3 py-1 text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
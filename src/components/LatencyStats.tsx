@@ -0,0 +1,54 @@
+"use client"
+
+import { SessionMetrics } from "@/types/hume"
+import { summarizeTurns } from "@/lib/turnMetrics"
+
+interface LatencyStatsProps {
+  metrics: SessionMetrics
+}
+
+const formatMs = (ms: number | null) =>
+  ms === null ? "-" : ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(2)} s`
+
+/**
+ * Settings section with response time percentiles for the current conversation
+ * Every stage is measured from the end of the user's speech
+ */
+export const LatencyStats: React.FC<LatencyStatsProps> = ({ metrics }) => {
+  const stages = summarizeTurns(metrics.turns)
+
+  return (
+    <div className="space-y-2">
+      {metrics.turns.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          No completed turns in this conversation yet.
+        </p>
+      ) : (
+        <table className="w-full text-xs text-gray-300">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-normal">
+                {metrics.turns.length} turns
+              </th>
+              <th className="text-right font-normal">p50</th>
+              <th className="text-right font-normal">p95</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stages.map(({ stage, label, p50, p95 }) => (
+              <tr key={stage}>
+                <td>{label}</td>
+                <td className="text-right font-mono">{formatMs(p50)}</td>
+                <td className="text-right font-mono">{formatMs(p95)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p className="text-xs text-gray-500">
+        Reconnects {metrics.reconnects} · Dropped audio chunks{" "}
+        {metrics.droppedChunks} · Playback errors {metrics.playbackErrors}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+"use client"
+
+import { useState } from "react"
+import {
+  Check,
+  MessageSquarePlus,
+  Pencil,
+  PlayCircle,
+  Trash2,
+  X,
+} from "lucide-react"
+import { clsx } from "clsx"
+import { ConversationSessionSummary } from "@/types/hume"
+
+interface SessionSidebarProps {
+  sessions: ConversationSessionSummary[]
+  activeSessionId: string | null
+  onOpenSession: (id: string) => void
+  onContinueSession: (id: string) => void
+  onRenameSession: (id: string, title: string) => void
+  onDeleteSession: (id: string) => void
+  onNewSession: () => void
+  onClose: () => void
+}
+
+/**
+ * Sidebar listing stored conversations
+ * Sessions can be reopened, continued with EVI, renamed and deleted
+ */
+export const SessionSidebar: React.FC<SessionSidebarProps> = ({
+  sessions,
+  activeSessionId,
+  onOpenSession,
+  onContinueSession,
+  onRenameSession,
+  onDeleteSession,
+  onNewSession,
+  onClose,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftTitle, setDraftTitle] = useState("")
+
+  /**
+   * Start inline rename for a session
+   */
+  const startRename = (session: ConversationSessionSummary) => {
+    setEditingId(session.id)
+    setDraftTitle(session.title)
+  }
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRenameSession(editingId, draftTitle)
+    }
+    setEditingId(null)
+  }
+
+  const handleDelete = (session: ConversationSessionSummary) => {
+    if (window.confirm(`Delete "${session.title}"? This cannot be undone.`)) {
+      onDeleteSession(session.id)
+    }
+  }
+
+  return (
+    <aside className="absolute inset-y-0 left-0 z-20 w-72 flex flex-col bg-gray-900/95 backdrop-blur-md border-r border-gray-800/50 shadow-xl">
+      <div className="flex items-center justify-between p-4 border-b border-gray-800/50">
+        <h3 className="text-sm font-semibold text-gray-300">Conversations</h3>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onNewSession}
+            className="p-2 text-gray-400 hover:text-white hover:bg-gray-800/50 rounded-lg transition-colors"
+            title="New conversation"
+          >
+            <MessageSquarePlus className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white hover:bg-gray-800/50 rounded-lg transition-colors"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sessions.length === 0 ? (
+          <p className="p-4 text-xs text-gray-500 text-center">
+            Past conversations will appear here.
+          </p>
+        ) : (
+          sessions.map((session) => (
+            <div
+              key={session.id}
+              className={clsx(
+                "group flex items-center rounded-lg px-3 py-2 transition-colors",
+                session.id === activeSessionId
+                  ? "bg-blue-600/30 border border-blue-400/30"
+                  : "hover:bg-gray-800/60 border border-transparent"
+              )}
+            >
+              {editingId === session.id ? (
+                <div className="flex flex-1 items-center space-x-1">
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename()
+                      if (e.key === "Escape") setEditingId(null)
+                    }}
+                    className="flex-1 min-w-0 px-2 py-1 bg-gray-800 rounded text-sm text-gray-100 border border-gray-600"
+                  />
+                  <button
+                    onClick={commitRename}
+                    className="p-1 text-green-400 hover:text-green-300"
+                    title="Save name"
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onOpenSession(session.id)}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <div className="text-sm text-gray-100 truncate">
+                      {session.title}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {session.updatedAt.toLocaleString()} ·{" "}
+                      {session.messageCount} messages
+                    </div>
+                  </button>
+                  {session.chatGroupId && (
+                    <button
+                      onClick={() => onContinueSession(session.id)}
+                      className="p-1 text-gray-500 hover:text-green-400"
+                      title="Continue this conversation"
+                    >
+                      <PlayCircle className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => startRename(session)}
+                    className="p-1 text-gray-500 hover:text-white"
+                    title="Rename"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(session)}
+                    className="p-1 text-gray-500 hover:text-red-400"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </aside>
+  )
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import { useState } from "react"
+import { Send } from "lucide-react"
+import { clsx } from "clsx"
+
+interface TextComposerProps {
+  onSend: (text: string) => void
+  disabled?: boolean
+}
+
+/**
+ * Text input for typing to the assistant instead of speaking
+ */
+export const TextComposer: React.FC<TextComposerProps> = ({
+  onSend,
+  disabled = false,
+}) => {
+  const [text, setText] = useState("")
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (disabled || !text.trim()) return
+
+    onSend(text)
+    setText("")
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex items-center w-full max-w-md space-x-2"
+    >
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        disabled={disabled}
+        placeholder={disabled ? "Connect to type a message" : "Type a message…"}
+        aria-label="Message Freja"
+        className="flex-1 min-w-0 px-4 py-2 bg-gray-800/90 backdrop-blur-sm rounded-full text-sm text-gray-100 border border-gray-700 focus:outline-none focus:border-blue-400 disabled:opacity-50"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !text.trim()}
+        className={clsx(
+          "p-2 rounded-full transition-colors",
+          disabled || !text.trim()
+            ? "text-gray-500 bg-gray-800/50 cursor-not-allowed"
+            : "text-white bg-gradient-to-br from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700"
+        )}
+        title="Send message"
+      >
+        <Send className="w-4 h-4" />
+      </button>
+    </form>
+  )
+}
@@ -0,0 +1,150 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Download, Play, Square } from "lucide-react"
+import { TraceReplayState } from "@/types/hume"
+import { createLogger } from "@/lib/logger"
+
+const log = createLogger("ui")
+
+interface TraceControlsProps {
+  isRecording: boolean
+  hasTrace: boolean
+  replayState: TraceReplayState
+  canReplay: boolean
+  onStartRecording: () => void
+  onStopRecording: () => void
+  onDownload: () => void
+  onReplay: (trace: string, speed: number) => void
+  onStopReplay: () => void
+}
+
+const REPLAY_SPEEDS = [
+  { speed: 1, label: "Original timing" },
+  { speed: 2, label: "2× speed" },
+  { speed: 4, label: "4× speed" },
+  { speed: 0, label: "As fast as possible" },
+]
+
+/**
+ * Settings section to record EVI socket traffic and replay saved traces
+ */
+export const TraceControls: React.FC<TraceControlsProps> = ({
+  isRecording,
+  hasTrace,
+  replayState,
+  canReplay,
+  onStartRecording,
+  onStopRecording,
+  onDownload,
+  onReplay,
+  onStopReplay,
+}) => {
+  const [speed, setSpeed] = useState(1)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleTraceFile = async (file: File) => {
+    setError(null)
+    try {
+      onReplay(await file.text(), speed)
+    } catch (replayError) {
+      log.error("Failed to replay trace:", replayError)
+      setError(
+        replayError instanceof Error ? replayError.message : "Replay failed"
+      )
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-300">Record EVI traffic</span>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={onDownload}
+            disabled={!hasTrace}
+            className="p-2 text-gray-400 hover:text-white hover:bg-gray-800/50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Download trace (.jsonl)"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+          <label className="relative inline-flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={isRecording}
+              onChange={(e) =>
+                e.target.checked ? onStartRecording() : onStopRecording()
+              }
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-gray-700/50 backdrop-blur-sm peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-red-600"></div>
+          </label>
+        </div>
+      </div>
+      {isRecording && (
+        <p className="text-xs text-gray-500">
+          Every frame is recorded, including your audio. Turning it back on
+          starts a new trace.
+        </p>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-300">Replay trace</span>
+        <div className="flex items-center space-x-2">
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(parseFloat(e.target.value))}
+            disabled={replayState.status === "playing"}
+            className="px-3 py-2 bg-gray-800/90 backdrop-blur-sm rounded-lg text-sm text-gray-100 border border-gray-700"
+          >
+            {REPLAY_SPEEDS.map((option) => (
+              <option key={option.speed} value={option.speed}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {replayState.status === "playing" ? (
+            <button
+              onClick={onStopReplay}
+              className="p-2 text-red-400 hover:text-red-300 hover:bg-gray-800/50 rounded-lg transition-colors"
+              title="Stop replay"
+            >
+              <Square className="w-4 h-4" />
+            </button>
+          ) : (
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!canReplay}
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-800/50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title={
+                canReplay
+                  ? "Choose a trace to replay"
+                  : "Disconnect to replay a trace"
+              }
+            >
+              <Play className="w-4 h-4" />
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".jsonl,application/jsonl"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0]
+              event.target.value = ""
+              if (file) handleTraceFile(file)
+            }}
+          />
+        </div>
+      </div>
+      {replayState.status === "playing" && (
+        <p className="text-xs text-gray-500">
+          Replaying frame {replayState.position} of {replayState.total}
+        </p>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  )
+}
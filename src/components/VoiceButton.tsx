@@ -1,35 +1,69 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Mic, MicOff, Square } from "lucide-react"
 import { clsx } from "clsx"
+import { AudioLevelListener, InputMode } from "@/types/hume"
 
 interface VoiceButtonProps {
   isRecording: boolean
   isProcessing: boolean
+  isMicPaused?: boolean
+  inputMode?: InputMode
+  pushToTalkKey?: string
   onStartRecording: () => void
   onStopRecording: () => void
+  onPushToTalkStart?: () => void
+  onPushToTalkEnd?: () => void
+  onToggleMute?: () => void
+  subscribeAudioLevels?: (listener: AudioLevelListener) => () => void
   disabled?: boolean
 }
 
+/**
+ * Readable label for a KeyboardEvent.code such as "KeyT" or "Space"
+ */
+export const formatKeyCode = (code: string): string =>
+  code.replace(/^Key/, "").replace(/^Digit/, "")
+
+/**
+ * Whether a key event comes from a text field, where push-to-talk must not fire
+ */
+const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+
 /**
  * Voice recording button component with visual feedback
- * Provides intuitive interface for starting/stopping voice recording
+ * Supports toggle, push-to-talk (pointer, touch and keyboard) and always-on modes
  */
 export const VoiceButton: React.FC<VoiceButtonProps> = ({
   isRecording,
   isProcessing,
+  isMicPaused = false,
+  inputMode = "toggle",
+  pushToTalkKey = "Space",
   onStartRecording,
   onStopRecording,
+  onPushToTalkStart,
+  onPushToTalkEnd,
+  onToggleMute,
+  subscribeAudioLevels,
   disabled = false,
 }) => {
   const [recordingTime, setRecordingTime] = useState(0)
+  const isHeldRef = useRef(false)
+  const meterRef = useRef<HTMLDivElement>(null)
+
+  const isPushToTalk = inputMode === "push-to-talk"
+  const isListening = isRecording && !isMicPaused
 
   // Track recording duration
   useEffect(() => {
     let interval: NodeJS.Timeout
 
-    if (isRecording) {
+    if (isListening) {
       interval = setInterval(() => {
         setRecordingTime((prev) => prev + 1)
       }, 1000)
@@ -42,15 +76,76 @@ export const VoiceButton: React.FC<VoiceButtonProps> = ({
         clearInterval(interval)
       }
     }
-  }, [isRecording])
+  }, [isListening])
+
+  // Live input meter, styled directly so frames do not re-render the button
+  useEffect(() => {
+    if (!isListening || !subscribeAudioLevels) return
+
+    return subscribeAudioLevels(({ input }) => {
+      const ring = meterRef.current
+      if (!ring) return
+
+      const level = input?.level ?? 0
+      ring.style.transform = `scale(${1 + level * 0.35})`
+      ring.style.opacity = String(0.2 + level * 0.8)
+    })
+  }, [isListening, subscribeAudioLevels])
+
+  /**
+   * Start talking, guarded so pointer and touch events do not double fire
+   */
+  const pressStart = () => {
+    if (disabled || isProcessing || isHeldRef.current) return
+    isHeldRef.current = true
+    onPushToTalkStart?.()
+  }
+
+  const pressEnd = () => {
+    if (!isHeldRef.current) return
+    isHeldRef.current = false
+    onPushToTalkEnd?.()
+  }
+
+  // Keyboard push-to-talk
+  useEffect(() => {
+    if (!isPushToTalk || disabled) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== pushToTalkKey || isEditableTarget(event.target)) return
+      event.preventDefault()
+      if (!event.repeat) pressStart()
+    }
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== pushToTalkKey) return
+      event.preventDefault()
+      pressEnd()
+    }
+
+    // Releasing the key in another window never fires keyup here
+    const handleBlur = () => pressEnd()
+
+    window.addEventListener("keydown", handleKeyDown)
+    window.addEventListener("keyup", handleKeyUp)
+    window.addEventListener("blur", handleBlur)
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+      window.removeEventListener("keyup", handleKeyUp)
+      window.removeEventListener("blur", handleBlur)
+    }
+  })
 
   /**
    * Handle voice button click
    */
   const handleClick = () => {
-    if (disabled || isProcessing) return
+    if (disabled || isProcessing || isPushToTalk) return
 
-    if (isRecording) {
+    if (inputMode === "always-on" && isRecording) {
+      onToggleMute?.()
+    } else if (isRecording) {
       onStopRecording()
     } else {
       onStartRecording()
@@ -66,22 +161,44 @@ export const VoiceButton: React.FC<VoiceButtonProps> = ({
     return `${mins}:${secs.toString().padStart(2, "0")}`
   }
 
+  const hint =
+    inputMode === "push-to-talk"
+      ? `Hold to record, release to send · or hold ${formatKeyCode(
+          pushToTalkKey
+        )}`
+      : inputMode === "always-on"
+        ? isRecording
+          ? "Tap to mute or unmute"
+          : "Tap to open the microphone"
+        : "Tap to record, tap again to send"
+
   return (
     <div className="flex flex-col items-center space-y-4">
       {/* Main voice button */}
       <button
         onClick={handleClick}
+        onPointerDown={(e) => {
+          if (!isPushToTalk) return
+          e.currentTarget.setPointerCapture(e.pointerId)
+          pressStart()
+        }}
+        onPointerUp={() => isPushToTalk && pressEnd()}
+        onPointerCancel={() => isPushToTalk && pressEnd()}
+        onTouchStart={() => isPushToTalk && pressStart()}
+        onTouchEnd={() => isPushToTalk && pressEnd()}
+        onContextMenu={(e) => isPushToTalk && e.preventDefault()}
         disabled={disabled || isProcessing}
+        style={isPushToTalk ? { touchAction: "none" } : undefined}
         className={clsx(
-          "relative flex items-center justify-center w-20 h-20 rounded-full transition-all duration-300 focus:outline-none",
+          "relative flex items-center justify-center w-20 h-20 rounded-full transition-all duration-300 focus:outline-none select-none",
           {
             // Default state
             "bg-gradient-to-br from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 shadow-lg hover:shadow-xl":
-              !isRecording && !isProcessing && !disabled,
+              !isListening && !isProcessing && !disabled,
 
             // Recording state
-            "bg-gradient-to-br from-red-500 to-pink-600 hover:from-red-600 hover:to-pink-700 shadow-lg hover:shadow-xl animate-pulse":
-              isRecording && !disabled,
+            "bg-gradient-to-br from-red-500 to-pink-600 hover:from-red-600 hover:to-pink-700 shadow-lg hover:shadow-xl":
+              isListening && !disabled,
 
             // Processing state
             "bg-gradient-to-br from-yellow-500 to-orange-600 cursor-not-allowed":
@@ -93,18 +210,25 @@ export const VoiceButton: React.FC<VoiceButtonProps> = ({
           }
         )}
       >
-        {/* Pulsing ring animation during recording */}
-        {isRecording && (
-          <div className="absolute inset-0 rounded-full bg-red-400 animate-ping opacity-30" />
-        )}
+        {/* Input level ring during recording, a plain pulse without levels */}
+        {isListening &&
+          (subscribeAudioLevels ? (
+            <div
+              ref={meterRef}
+              className="absolute -inset-1 rounded-full border-4 border-red-300 pointer-events-none"
+              style={{ opacity: 0.2 }}
+            />
+          ) : (
+            <div className="absolute inset-0 rounded-full bg-red-400 animate-ping opacity-30" />
+          ))}
 
         {/* Button icon */}
         <div className="relative z-10 text-white">
           {isProcessing ? (
             <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin" />
-          ) : isRecording ? (
+          ) : isListening && inputMode === "toggle" ? (
             <Square className="w-8 h-8" fill="currentColor" />
-          ) : disabled ? (
+          ) : disabled || (isRecording && isMicPaused) ? (
             <MicOff className="w-8 h-8" />
           ) : (
             <Mic className="w-8 h-8" />
@@ -112,7 +236,7 @@ export const VoiceButton: React.FC<VoiceButtonProps> = ({
         </div>
 
         {/* Recording progress ring */}
-        {isRecording && (
+        {isListening && (
           <svg className="absolute inset-0 w-full h-full -rotate-90">
             <circle
               cx="50%"
@@ -141,9 +265,11 @@ export const VoiceButton: React.FC<VoiceButtonProps> = ({
 
       {/* Status text */}
       <div className="text-center space-y-1">
-        {isRecording ? (
+        {isListening ? (
           <>
-            <div className="text-red-400 font-medium text-sm">Recording...</div>
+            <div className="text-red-400 font-medium text-sm">
+              {inputMode === "toggle" ? "Recording..." : "Listening..."}
+            </div>
             <div className="text-gray-400 text-xs font-mono">
               {formatTime(recordingTime)}
             </div>
@@ -154,16 +280,18 @@ export const VoiceButton: React.FC<VoiceButtonProps> = ({
           </div>
         ) : disabled ? (
           <div className="text-gray-500 text-sm">Microphone disabled</div>
+        ) : isRecording && isMicPaused ? (
+          <div className="text-gray-400 text-sm">Microphone muted</div>
         ) : (
-          <div className="text-gray-400 text-sm">Tap to speak</div>
+          <div className="text-gray-400 text-sm">
+            {isPushToTalk ? "Hold to speak" : "Tap to speak"}
+          </div>
         )}
       </div>
 
       {/* Quick action hint */}
-      {!isRecording && !isProcessing && !disabled && (
-        <div className="text-xs text-gray-500 text-center max-w-xs">
-          Hold to record, release to send
-        </div>
+      {!isListening && !isProcessing && !disabled && (
+        <div className="text-xs text-gray-500 text-center max-w-xs">{hint}</div>
       )}
     </div>
   )
@@ -0,0 +1,148 @@
+import {
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+  within,
+} from "@testing-library/react"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { VoiceChat } from "./VoiceChat"
+import {
+  createMockEviServer,
+  createWavChunk,
+  eviFrames,
+  MockEviServer,
+  MockEviSession,
+  send,
+} from "@/test/mockEviServer"
+import { installFakeMedia } from "@/test/fakeMedia"
+
+// Read when the hook mounts, so each test can point it at its own server
+const mockServerUrl = vi.hoisted(() => ({ current: "" }))
+
+vi.mock("@/config/eviConfigs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/config/eviConfigs")>()
+  return {
+    ...actual,
+    get DEFAULT_HUME_CONFIG() {
+      return { ...actual.DEFAULT_HUME_CONFIG, baseUrl: mockServerUrl.current }
+    },
+  }
+})
+
+vi.mock("@/lib/humeAuth", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/humeAuth")>()),
+  getAccessToken: async () => "test-token",
+}))
+
+vi.mock("@/lib/connectionPolicy", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/connectionPolicy")>()),
+  getReconnectDelay: () => 10,
+}))
+
+let server: MockEviServer | null = null
+
+const renderConnected = async (sessions: MockEviSession[]) => {
+  server = await createMockEviServer(sessions)
+  mockServerUrl.current = server.url
+
+  render(<VoiceChat />)
+  fireEvent.click(screen.getByTitle("Connect to Hume EVI"))
+  await screen.findByText("Connected")
+}
+
+beforeEach(() => {
+  installFakeMedia()
+})
+
+afterEach(async () => {
+  await server?.close()
+  server = null
+})
+
+describe("VoiceChat against the mock EVI server", () => {
+  it("shows the conversation with emotions as EVI streams it", async () => {
+    await renderConnected([
+      [
+        send(eviFrames.chatMetadata()),
+        send(eviFrames.userMessage("How are", { interim: true })),
+        send(eviFrames.userMessage("How are you?", { prosody: { Joy: 0.42 } })),
+        send(eviFrames.assistantMessage("Doing well, thanks!")),
+        send(eviFrames.audioOutput(createWavChunk(200))),
+        send(eviFrames.assistantEnd()),
+      ],
+    ])
+
+    expect(await screen.findByText("How are you?")).toBeTruthy()
+    expect(await screen.findByText("Doing well, thanks!")).toBeTruthy()
+    expect(screen.getByText("Joy 42%")).toBeTruthy()
+    expect(screen.queryByText("How are")).toBeNull()
+    expect(await screen.findByText("Freja is speaking")).toBeTruthy()
+  })
+
+  it("marks a reply cut off by user_interruption", async () => {
+    await renderConnected([
+      [
+        send(eviFrames.assistantMessage("Let me tell you a story")),
+        send(eviFrames.audioOutput(createWavChunk(1000))),
+        { kind: "delay", ms: 50 },
+        send(eviFrames.userInterruption()),
+      ],
+    ])
+
+    expect(await screen.findByText("(interrupted)")).toBeTruthy()
+    await waitFor(() =>
+      expect(screen.queryByText("Freja is speaking")).toBeNull()
+    )
+  })
+
+  it("reports a failed connection and retries on demand", async () => {
+    await renderConnected([
+      [
+        { kind: "delay", ms: 100 },
+        { kind: "close", code: 4001, reason: "Invalid config" },
+      ],
+      [send(eviFrames.chatMetadata())],
+    ])
+
+    expect(await screen.findByText("Connection failed")).toBeTruthy()
+    const banner = await screen.findByRole("alert")
+    expect(banner.textContent).toContain("EVI closed the connection")
+    expect(banner.textContent).toContain("Invalid config")
+
+    fireEvent.click(screen.getByText("Retry now"))
+    expect(await screen.findByText("Connected")).toBeTruthy()
+    expect(server!.connections).toHaveLength(2)
+    // The banner goes away once the connection is back
+    expect(screen.queryByRole("alert")).toBeNull()
+  })
+
+  it("retries the connection from the error banner", async () => {
+    await renderConnected([
+      [
+        { kind: "delay", ms: 100 },
+        { kind: "close", code: 4001, reason: "Invalid config" },
+      ],
+      [send(eviFrames.chatMetadata())],
+    ])
+
+    const banner = await screen.findByRole("alert")
+    fireEvent.click(within(banner).getByText("Retry connection"))
+    expect(await screen.findByText("Connected")).toBeTruthy()
+    expect(server!.connections).toHaveLength(2)
+  })
+
+  it("toggles the diagnostics overlay with Ctrl+Shift+D", async () => {
+    await renderConnected([
+      [send(eviFrames.chatMetadata("chat-42")), { kind: "delay", ms: 50 }],
+    ])
+
+    fireEvent.keyDown(window, { code: "KeyD", ctrlKey: true, shiftKey: true })
+    expect(await screen.findByText("Diagnostics")).toBeTruthy()
+    expect(await screen.findByText("chat-42")).toBeTruthy()
+    expect(screen.getByText("open")).toBeTruthy()
+
+    fireEvent.keyDown(window, { code: "KeyD", ctrlKey: true, shiftKey: true })
+    expect(screen.queryByText("Diagnostics")).toBeNull()
+  })
+})
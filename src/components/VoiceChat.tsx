@@ -2,20 +2,47 @@
 
 import { useState, useEffect, useRef } from "react"
 import {
+  CheckCircle2,
+  History,
+  Keyboard,
+  Loader2,
+  Wrench,
+  XCircle,
   Settings,
   Trash2,
   Volume2,
   VolumeX,
   Mic,
   MicOff,
-  Wifi,
   WifiOff,
 } from "lucide-react"
 import Image from "next/image"
-import { VoiceButton } from "./VoiceButton"
+import { VoiceButton, formatKeyCode } from "./VoiceButton"
+import { EmotionTimeline } from "./EmotionTimeline"
+import { SessionSidebar } from "./SessionSidebar"
+import { TextComposer } from "./TextComposer"
+import { ConnectionStatus } from "./ConnectionStatus"
+import { AudioWaveform } from "./AudioWaveform"
+import { ExportMenu } from "./ExportMenu"
+import { TraceControls } from "./TraceControls"
+import { DiagnosticsOverlay } from "./DiagnosticsOverlay"
+import { LatencyStats } from "./LatencyStats"
+import { ErrorBanners } from "./ErrorBanners"
 import { useVoiceChat } from "@/hooks/useVoiceChat"
-import { VoiceMessage } from "@/types/hume"
+import {
+  AppError,
+  CaptureMode,
+  InputMode,
+  RecoveryAction,
+  VoiceMessage,
+} from "@/types/hume"
+import { EVI_CONFIGS } from "@/config/eviConfigs"
+import { CLIENT_TOOLS } from "@/config/clientTools"
+import { getDeviceLabel } from "@/lib/audio/audioDevices"
 import { clsx } from "clsx"
+import { createLogger } from "@/lib/logger"
+
+const log = createLogger("ui")
 
 /**
  * Main voice chat interface component
@@ -25,18 +52,92 @@ export const VoiceChat: React.FC = () => {
   const {
     conversationState,
     voiceSettings,
+    inputDevices,
+    outputDevices,
+    canSelectOutput,
     isConnected,
+    activeCaptureMode,
+    humeConfig,
+    activeEviConfigId,
+    sessions,
+    activeSessionId,
+    connectionState,
+    errors,
+    sessionMetrics,
+    isTrafficRecording,
+    hasTrafficTrace,
+    traceReplayState,
     connect,
     disconnect,
+    retryConnection,
+    dismissError,
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
+    beginPushToTalk,
+    endPushToTalk,
+    interruptAssistant,
+    subscribeAudioLevels,
+    startTrafficRecording,
+    stopTrafficRecording,
+    downloadTrafficTrace,
+    replayTrafficTrace,
+    stopTraceReplay,
+    getDiagnostics,
+    sendTextMessage,
+    registerTool,
     clearConversation,
     updateVoiceSettings,
+    selectEviConfig,
+    openSession,
+    importConversation,
+    continueSession,
+    renameSession,
+    deleteSession,
   } = useVoiceChat()
 
   const [showSettings, setShowSettings] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [isCapturingKey, setIsCapturingKey] = useState(false)
+  const [showDiagnostics, setShowDiagnostics] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
+  // Make the client tools available to EVI
+  useEffect(() => {
+    const unregisterTools = CLIENT_TOOLS.map((tool) => registerTool(tool))
+    return () => unregisterTools.forEach((unregister) => unregister())
+  }, [registerTool])
+
+  // Capture the next key press as the push-to-talk key
+  useEffect(() => {
+    if (!isCapturingKey) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault()
+      if (event.code !== "Escape") {
+        updateVoiceSettings({ pushToTalkKey: event.code })
+      }
+      setIsCapturingKey(false)
+    }
+
+    window.addEventListener("keydown", handleKeyDown, { once: true })
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [isCapturingKey, updateVoiceSettings])
+
+  // Ctrl+Shift+D toggles the hidden diagnostics overlay
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey && event.shiftKey && event.code === "KeyD") {
+        event.preventDefault()
+        setShowDiagnostics((shown) => !shown)
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
   // Auto-scroll to latest message
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
@@ -50,17 +151,13 @@ export const VoiceChat: React.FC = () => {
   }
 
   /**
-   * Handle connection toggle
+   * Handle connect from the header
    */
-  const handleConnectionToggle = async () => {
+  const handleConnect = async () => {
     try {
-      if (isConnected) {
-        disconnect()
-      } else {
-        await connect()
-      }
+      await connect()
     } catch (error) {
-      console.error("Connection toggle failed:", error)
+      log.error("Connection failed:", error)
     }
   }
 
@@ -69,16 +166,139 @@ export const VoiceChat: React.FC = () => {
    */
   const handleStartRecording = async () => {
     try {
+      interruptAssistant()
       await startRecording()
     } catch (error) {
-      console.error("Failed to start recording:", error)
+      log.error("Failed to start recording:", error)
+    }
+  }
+
+  /**
+   * Handle push-to-talk press
+   */
+  const handlePushToTalkStart = async () => {
+    try {
+      interruptAssistant()
+      await beginPushToTalk()
+    } catch (error) {
+      log.error("Failed to start push-to-talk:", error)
+    }
+  }
+
+  /**
+   * Handle tap while recording, which interrupts Freja if she is speaking
+   */
+  const handleStopRecording = () => {
+    if (conversationState.isPlaying) {
+      interruptAssistant()
+      return
+    }
+    stopRecording()
+  }
+
+  /**
+   * Handle mute toggle in always-on mode, which interrupts Freja if she is speaking
+   */
+  const handleToggleMute = () => {
+    if (conversationState.isPlaying) {
+      interruptAssistant()
+    } else if (conversationState.isMicPaused) {
+      resumeRecording()
+    } else {
+      pauseRecording()
+    }
+  }
+
+  /**
+   * Run a recovery action from an error banner
+   */
+  const handleErrorAction = (action: RecoveryAction, error: AppError) => {
+    dismissError(error.id)
+    switch (action) {
+      case "retry-connection":
+        if (connectionState.status === "idle") {
+          handleConnect()
+        } else {
+          retryConnection()
+        }
+        break
+      case "grant-microphone":
+        // Asking again shows the browser prompt unless access was blocked for good
+        handleStartRecording()
+        break
+      case "choose-device":
+        setShowSettings(true)
+        break
+      case "check-api-key":
+        // Rendered as a link to the Hume portal
+        break
+    }
+  }
+
+  /**
+   * Handle typed message
+   */
+  const handleSendText = (text: string) => {
+    try {
+      sendTextMessage(text)
+    } catch (error) {
+      log.error("Failed to send text message:", error)
     }
   }
 
+  /**
+   * Render an inline tool invocation
+   */
+  const renderToolMessage = (message: VoiceMessage) => {
+    const invocation = message.toolInvocation
+    if (!invocation) return null
+
+    return (
+      <div key={message.id} className="flex w-full mb-4 justify-center">
+        <details className="max-w-md w-full px-4 py-2 rounded-xl bg-gray-900/80 backdrop-blur-sm border border-gray-700/60 text-xs text-gray-300">
+          <summary className="flex items-center space-x-2 cursor-pointer">
+            <Wrench className="w-4 h-4 text-purple-300" />
+            <span className="font-mono font-semibold">{invocation.name}</span>
+            {invocation.status === "running" ? (
+              <Loader2 className="w-4 h-4 animate-spin text-yellow-400" />
+            ) : invocation.status === "succeeded" ? (
+              <CheckCircle2 className="w-4 h-4 text-green-400" />
+            ) : (
+              <XCircle className="w-4 h-4 text-red-400" />
+            )}
+            <span className="ml-auto opacity-70 font-mono">
+              {message.timestamp.toLocaleTimeString()}
+            </span>
+          </summary>
+          <div className="mt-2 space-y-1 font-mono break-all">
+            <div>
+              <span className="text-gray-500">args </span>
+              {invocation.arguments || "{}"}
+            </div>
+            {invocation.result && (
+              <div>
+                <span className="text-gray-500">result </span>
+                {invocation.result}
+              </div>
+            )}
+            {invocation.error && (
+              <div className="text-red-300">
+                <span className="text-gray-500">error </span>
+                {invocation.error}
+              </div>
+            )}
+          </div>
+        </details>
+      </div>
+    )
+  }
+
   /**
    * Render individual message
    */
   const renderMessage = (message: VoiceMessage) => {
+    if (message.type === "tool") return renderToolMessage(message)
+
     const isUser = message.type === "user"
     const userName = "Robert"
     const assistantName = "Freja AI"
@@ -140,17 +360,32 @@ export const VoiceChat: React.FC = () => {
           {/* Message content */}
           <div className="text-sm mb-2 font-semibold leading-relaxed">
             {message.content}
+            {message.isTruncated && (
+              <span className="ml-1 text-xs font-normal italic text-gray-300">
+                (interrupted)
+              </span>
+            )}
           </div>
 
-          {/* Audio player for user messages */}
-          {isUser && message.audioUrl && (
-            <audio controls className="w-full mt-2 h-8 opacity-90">
-              <source src={message.audioUrl} type="audio/webm" />
-            </audio>
+          {/* Replay of the recorded turn */}
+          {message.audioUrl && (
+            <div className="flex items-center mt-2 space-x-2">
+              <audio
+                controls
+                preload="metadata"
+                src={message.audioUrl}
+                className="w-full h-8 opacity-90"
+              />
+              {message.duration !== undefined && (
+                <span className="text-xs font-mono text-gray-200">
+                  {message.duration.toFixed(1)}s
+                </span>
+              )}
+            </div>
           )}
 
-          {/* Emotion indicators for assistant messages */}
-          {!isUser && message.emotions && message.emotions.length > 0 && (
+          {/* Emotion indicators from prosody */}
+          {message.emotions && message.emotions.length > 0 && (
             <div className="mt-2 flex flex-wrap gap-1">
               {message.emotions.slice(0, 3).map((emotion) => (
                 <span
@@ -167,7 +402,12 @@ export const VoiceChat: React.FC = () => {
           )}
 
           {/* Timestamp */}
-          <div className="text-xs opacity-80 mt-1 font-mono text-gray-200">
+          <div className="flex items-center text-xs opacity-80 mt-1 font-mono text-gray-200">
+            {message.isTyped && (
+              <span title="Typed message">
+                <Keyboard className="w-3 h-3 mr-1" />
+              </span>
+            )}
             {message.timestamp.toLocaleTimeString()}
           </div>
         </div>
@@ -220,6 +460,42 @@ export const VoiceChat: React.FC = () => {
 
       {/* Content with relative positioning to appear above background */}
       <div className="relative z-10 flex flex-col h-full">
+        {showDiagnostics && (
+          <DiagnosticsOverlay
+            getDiagnostics={getDiagnostics}
+            humeConfig={humeConfig}
+            voiceSettings={voiceSettings}
+            onClose={() => setShowDiagnostics(false)}
+          />
+        )}
+
+        {/* Past conversations */}
+        {showHistory && (
+          <SessionSidebar
+            sessions={sessions}
+            activeSessionId={activeSessionId}
+            onOpenSession={(id) => {
+              openSession(id)
+              setShowHistory(false)
+            }}
+            onContinueSession={async (id) => {
+              setShowHistory(false)
+              try {
+                await continueSession(id)
+              } catch (error) {
+                log.error("Failed to continue conversation:", error)
+              }
+            }}
+            onRenameSession={renameSession}
+            onDeleteSession={deleteSession}
+            onNewSession={() => {
+              clearConversation()
+              setShowHistory(false)
+            }}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+
         {/* Header */}
         <div className="flex items-center justify-between p-4 bg-gray-900/90 backdrop-blur-sm border-b border-gray-800/50">
           <div className="flex items-center space-x-3">
@@ -235,39 +511,33 @@ export const VoiceChat: React.FC = () => {
             </div>
 
             {/* Connection status */}
-            <div className="flex items-center space-x-2">
-              <button
-                onClick={handleConnectionToggle}
-                className={clsx(
-                  "p-2 rounded-lg transition-colors backdrop-blur-sm",
-                  isConnected
-                    ? "text-green-400 bg-green-400/20 hover:bg-green-400/30"
-                    : "text-red-400 bg-red-400/20 hover:bg-red-400/30"
-                )}
-                title={
-                  isConnected
-                    ? "Disconnect from Hume EVI"
-                    : "Connect to Hume EVI"
-                }
-              >
-                {isConnected ? (
-                  <Wifi className="w-5 h-5" />
-                ) : (
-                  <WifiOff className="w-5 h-5" />
-                )}
-              </button>
-              <span
-                className={clsx(
-                  "text-xs font-medium",
-                  isConnected ? "text-green-400" : "text-red-400"
-                )}
-              >
-                {isConnected ? "Connected" : "Disconnected"}
-              </span>
-            </div>
+            <ConnectionStatus
+              connectionState={connectionState}
+              onConnect={handleConnect}
+              onDisconnect={disconnect}
+              onRetryNow={retryConnection}
+            />
           </div>
 
           <div className="flex items-center space-x-2">
+            {/* Conversation history button */}
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="p-2 text-gray-400 hover:text-white hover:bg-gray-800/50 backdrop-blur-sm rounded-lg transition-colors"
+              title="Conversation history"
+            >
+              <History className="w-5 h-5" />
+            </button>
+
+            {/* Export and import */}
+            <ExportMenu
+              messages={conversationState.messages}
+              session={sessions.find(
+                (session) => session.id === activeSessionId
+              )}
+              onImport={importConversation}
+            />
+
             {/* Clear conversation button */}
             <button
               onClick={clearConversation}
@@ -296,6 +566,36 @@ export const VoiceChat: React.FC = () => {
               Voice Settings
             </h3>
 
+            {/* EVI configuration picker */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-300">Configuration</span>
+                {isConnected && (
+                  <span className="text-xs text-gray-500">
+                    Applies on next connection
+                  </span>
+                )}
+              </div>
+              <select
+                value={activeEviConfigId ?? ""}
+                onChange={(e) => selectEviConfig(e.target.value)}
+                className="w-full px-3 py-2 bg-gray-800/90 backdrop-blur-sm rounded-lg text-sm text-gray-100 border border-gray-700"
+              >
+                {!activeEviConfigId && (
+                  <option value="" disabled>
+                    Custom configuration
+                  </option>
+                )}
+                {EVI_CONFIGS.map((config) => (
+                  <option key={config.id} value={config.id}>
+                    {config.description
+                      ? `${config.name} – ${config.description}`
+                      : config.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {/* Microphone toggle */}
               <div className="flex items-center justify-between">
@@ -346,6 +646,55 @@ export const VoiceChat: React.FC = () => {
               </div>
             </div>
 
+            {/* Audio devices */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <span className="text-sm text-gray-300">Microphone</span>
+                <select
+                  value={voiceSettings.inputDeviceId ?? ""}
+                  onChange={(e) =>
+                    updateVoiceSettings({
+                      inputDeviceId: e.target.value || null,
+                    })
+                  }
+                  className="w-full px-3 py-2 bg-gray-800/90 backdrop-blur-sm rounded-lg text-sm text-gray-100 border border-gray-700"
+                >
+                  <option value="">System default</option>
+                  {inputDevices.map((device, index) => (
+                    <option key={device.deviceId} value={device.deviceId}>
+                      {getDeviceLabel(device, index)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <span className="text-sm text-gray-300">Speaker</span>
+                <select
+                  value={voiceSettings.outputDeviceId ?? ""}
+                  onChange={(e) =>
+                    updateVoiceSettings({
+                      outputDeviceId: e.target.value || null,
+                    })
+                  }
+                  disabled={!canSelectOutput}
+                  className="w-full px-3 py-2 bg-gray-800/90 backdrop-blur-sm rounded-lg text-sm text-gray-100 border border-gray-700 disabled:opacity-50"
+                >
+                  <option value="">System default</option>
+                  {outputDevices.map((device, index) => (
+                    <option key={device.deviceId} value={device.deviceId}>
+                      {getDeviceLabel(device, index)}
+                    </option>
+                  ))}
+                </select>
+                {!canSelectOutput && (
+                  <p className="text-xs text-gray-500">
+                    This browser always plays through the system default
+                  </p>
+                )}
+              </div>
+            </div>
+
             {/* Volume slider */}
             <div className="space-y-2">
               <div className="flex items-center justify-between">
@@ -369,6 +718,191 @@ export const VoiceChat: React.FC = () => {
               />
             </div>
 
+            {/* Input mode */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <span className="text-sm text-gray-300">Input mode</span>
+                <select
+                  value={voiceSettings.inputMode}
+                  onChange={(e) =>
+                    updateVoiceSettings({
+                      inputMode: e.target.value as InputMode,
+                    })
+                  }
+                  className="w-full px-3 py-2 bg-gray-800/90 backdrop-blur-sm rounded-lg text-sm text-gray-100 border border-gray-700"
+                >
+                  <option value="toggle">Tap to toggle</option>
+                  <option value="push-to-talk">Push to talk</option>
+                  <option value="always-on">Always on</option>
+                </select>
+              </div>
+
+              {voiceSettings.inputMode === "push-to-talk" && (
+                <div className="space-y-2">
+                  <span className="text-sm text-gray-300">
+                    Push-to-talk key
+                  </span>
+                  <button
+                    onClick={() => setIsCapturingKey(true)}
+                    className="w-full px-3 py-2 bg-gray-800/90 backdrop-blur-sm rounded-lg text-sm text-gray-100 border border-gray-700 text-left"
+                  >
+                    {isCapturingKey
+                      ? "Press a key… (Esc to cancel)"
+                      : formatKeyCode(voiceSettings.pushToTalkKey)}
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* Hands-free voice activity detection */}
+            {voiceSettings.inputMode === "always-on" && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-gray-300">
+                        Speech threshold
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {voiceSettings.vadThresholdDb} dB
+                      </span>
+                    </div>
+                    <input
+                      type="range"
+                      min="-70"
+                      max="-20"
+                      step="1"
+                      value={voiceSettings.vadThresholdDb}
+                      onChange={(e) =>
+                        updateVoiceSettings({
+                          vadThresholdDb: parseInt(e.target.value, 10),
+                        })
+                      }
+                      className="w-full h-2 bg-gray-700/50 backdrop-blur-sm rounded-lg appearance-none cursor-pointer"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-gray-300">
+                        Silence before sending stops
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {voiceSettings.vadHangoverMs} ms
+                      </span>
+                    </div>
+                    <input
+                      type="range"
+                      min="200"
+                      max="2000"
+                      step="100"
+                      value={voiceSettings.vadHangoverMs}
+                      onChange={(e) =>
+                        updateVoiceSettings({
+                          vadHangoverMs: parseInt(e.target.value, 10),
+                        })
+                      }
+                      className="w-full h-2 bg-gray-700/50 backdrop-blur-sm rounded-lg appearance-none cursor-pointer"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-300">
+                    Listen while Freja speaks (barge-in)
+                  </span>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={voiceSettings.bargeInEnabled}
+                      onChange={(e) =>
+                        updateVoiceSettings({
+                          bargeInEnabled: e.target.checked,
+                        })
+                      }
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-700/50 backdrop-blur-sm peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                  </label>
+                </div>
+              </div>
+            )}
+
+            {/* Microphone capture mode */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-300">Capture mode</span>
+                  {activeCaptureMode && (
+                    <span className="text-xs text-gray-500">
+                      Active: {activeCaptureMode === "pcm" ? "PCM" : "WebM"}
+                    </span>
+                  )}
+                </div>
+                <select
+                  value={voiceSettings.captureMode}
+                  onChange={(e) =>
+                    updateVoiceSettings({
+                      captureMode: e.target.value as CaptureMode,
+                    })
+                  }
+                  className="w-full px-3 py-2 bg-gray-800/90 backdrop-blur-sm rounded-lg text-sm text-gray-100 border border-gray-700"
+                >
+                  <option value="auto">Automatic</option>
+                  <option value="webm">WebM / Opus (MediaRecorder)</option>
+                  <option value="pcm">Raw PCM (AudioWorklet)</option>
+                </select>
+              </div>
+
+              {voiceSettings.captureMode !== "webm" && (
+                <div className="space-y-2">
+                  <span className="text-sm text-gray-300">PCM sample rate</span>
+                  <select
+                    value={voiceSettings.pcmSampleRate}
+                    onChange={(e) =>
+                      updateVoiceSettings({
+                        pcmSampleRate: parseInt(e.target.value, 10),
+                      })
+                    }
+                    className="w-full px-3 py-2 bg-gray-800/90 backdrop-blur-sm rounded-lg text-sm text-gray-100 border border-gray-700"
+                  >
+                    {[16000, 24000, 44100, 48000].map((rate) => (
+                      <option key={rate} value={rate}>
+                        {rate / 1000} kHz
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+            {isConnected && (
+              <p className="text-xs text-gray-500">
+                Capture changes apply on next connection
+              </p>
+            )}
+
+            {/* Replay audio memory */}
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-300">
+                Keep audio for replay
+              </span>
+              <select
+                value={voiceSettings.replayAudioLimitMb}
+                onChange={(e) =>
+                  updateVoiceSettings({
+                    replayAudioLimitMb: parseInt(e.target.value, 10),
+                  })
+                }
+                className="px-3 py-2 bg-gray-800/90 backdrop-blur-sm rounded-lg text-sm text-gray-100 border border-gray-700"
+              >
+                <option value={0}>Off</option>
+                {[10, 50, 200].map((limit) => (
+                  <option key={limit} value={limit}>
+                    Up to {limit} MB
+                  </option>
+                ))}
+              </select>
+            </div>
+
             {/* Auto-play toggle */}
             <div className="flex items-center justify-between">
               <span className="text-sm text-gray-300">Auto-play responses</span>
@@ -386,9 +920,46 @@ export const VoiceChat: React.FC = () => {
                 <div className="w-11 h-6 bg-gray-700/50 backdrop-blur-sm peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
               </label>
             </div>
+
+            {/* Response times for this conversation */}
+            <div className="pt-4 border-t border-gray-800/50 space-y-2">
+              <h3 className="text-sm font-semibold text-gray-300">
+                Response Times
+              </h3>
+              <LatencyStats metrics={sessionMetrics} />
+            </div>
+
+            {/* Traffic recording and replay for bug reports */}
+            <div className="pt-4 border-t border-gray-800/50 space-y-2">
+              <h3 className="text-sm font-semibold text-gray-300">Debugging</h3>
+              <TraceControls
+                isRecording={isTrafficRecording}
+                hasTrace={hasTrafficTrace}
+                replayState={traceReplayState}
+                canReplay={
+                  connectionState.status === "idle" ||
+                  connectionState.status === "failed"
+                }
+                onStartRecording={startTrafficRecording}
+                onStopRecording={stopTrafficRecording}
+                onDownload={downloadTrafficTrace}
+                onReplay={replayTrafficTrace}
+                onStopReplay={stopTraceReplay}
+              />
+            </div>
           </div>
         )}
 
+        {/* Problems with their recovery actions */}
+        <ErrorBanners
+          errors={errors}
+          onAction={handleErrorAction}
+          onDismiss={dismissError}
+        />
+
+        {/* Emotion timeline */}
+        <EmotionTimeline messages={conversationState.messages} />
+
         {/* Messages area */}
         <div className="flex-1 overflow-y-auto p-4 space-y-4">
           {conversationState.messages.length === 0 ? (
@@ -423,18 +994,60 @@ export const VoiceChat: React.FC = () => {
             <VoiceButton
               isRecording={conversationState.isRecording}
               isProcessing={conversationState.isProcessing}
+              isMicPaused={conversationState.isMicPaused}
+              inputMode={voiceSettings.inputMode}
+              pushToTalkKey={voiceSettings.pushToTalkKey}
               onStartRecording={handleStartRecording}
-              onStopRecording={stopRecording}
+              onStopRecording={handleStopRecording}
+              onPushToTalkStart={handlePushToTalkStart}
+              onPushToTalkEnd={endPushToTalk}
+              onToggleMute={handleToggleMute}
+              subscribeAudioLevels={subscribeAudioLevels}
               disabled={!voiceSettings.microphoneEnabled || !isConnected}
             />
           </div>
 
+          {/* Typed input */}
+          <div className="flex justify-center mt-4">
+            <TextComposer onSend={handleSendText} disabled={!isConnected} />
+          </div>
+
           {/* Status indicator */}
           <div className="flex flex-col items-center mt-4 space-y-2">
+            {voiceSettings.inputMode === "always-on" &&
+              conversationState.isRecording &&
+              !conversationState.isMicPaused && (
+                <div
+                  className={clsx(
+                    "flex items-center justify-center text-sm bg-black/50 backdrop-blur-sm rounded-lg px-3 py-2 border font-medium",
+                    conversationState.isUserSpeaking
+                      ? "text-blue-300 border-blue-400/30"
+                      : "text-gray-300 border-gray-600/30"
+                  )}
+                >
+                  <Mic className="w-4 h-4 mr-2" />
+                  {conversationState.isUserSpeaking
+                    ? "Hearing you..."
+                    : conversationState.isPlaying &&
+                        !voiceSettings.bargeInEnabled
+                      ? "Mic muted while Freja speaks"
+                      : "Waiting for you to speak"}
+                </div>
+              )}
+
             {conversationState.isPlaying && (
               <div className="flex items-center justify-center text-green-300 text-sm bg-black/50 backdrop-blur-sm rounded-lg px-3 py-2 border border-green-400/30 font-medium">
                 <Volume2 className="w-4 h-4 mr-2" />
-                Playing response...
+                <span className="mr-3">Freja is speaking</span>
+                <AudioWaveform subscribeAudioLevels={subscribeAudioLevels} />
+              </div>
+            )}
+
+            {conversationState.isInputSilent && (
+              <div className="flex items-center justify-center text-yellow-300 text-sm bg-black/50 backdrop-blur-sm rounded-lg px-3 py-2 border border-yellow-400/30 font-medium">
+                <MicOff className="w-4 h-4 mr-2" />
+                No sound from your microphone. Check it is not muted, or pick
+                another one in Settings.
               </div>
             )}
 
@@ -0,0 +1,31 @@
+import { ClientTool } from "@/types/hume"
+
+/**
+ * Client tools registered with every voice chat
+ * Each tool must also be added to the EVI config in the Hume portal under the same name
+ */
+export const CLIENT_TOOLS: ClientTool[] = [
+  {
+    name: "get_current_time",
+    description: "Get the user's local date and time",
+    parameters: {
+      type: "object",
+      properties: {
+        timezone: {
+          type: "string",
+          description: "IANA timezone such as Europe/Stockholm",
+        },
+      },
+      additionalProperties: false,
+    },
+    handler: async ({ timezone }) => {
+      const now = new Date()
+      return {
+        iso: now.toISOString(),
+        local: now.toLocaleString(undefined, {
+          timeZone: typeof timezone === "string" ? timezone : undefined,
+        }),
+      }
+    },
+  },
+]
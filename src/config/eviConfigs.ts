@@ -0,0 +1,23 @@
+import { HumeConfig, NamedEviConfig } from "@/types/hume"
+
+/**
+ * Named EVI configurations selectable from the settings panel
+ * Add an entry per persona or environment instead of editing the hook
+ */
+export const EVI_CONFIGS: NamedEviConfig[] = [
+  {
+    id: "freja",
+    name: "Freja",
+    description: "Default companion persona",
+    config: {
+      configId:
+        process.env.NEXT_PUBLIC_HUME_CONFIG_ID ||
+        "b0cc7c5a-5f9f-4ec9-94ee-71bdaafd147c",
+    },
+  },
+]
+
+export const DEFAULT_HUME_CONFIG: HumeConfig = {
+  baseUrl: "wss://api.hume.ai",
+  ...EVI_CONFIGS[0].config,
+}
@@ -0,0 +1,49 @@
+import { useState, useCallback, useEffect } from "react"
+import {
+  AudioDeviceList,
+  listAudioDevices,
+  supportsOutputSelection,
+} from "@/lib/audio/audioDevices"
+import { createLogger } from "@/lib/logger"
+
+const log = createLogger("devices")
+
+/**
+ * Available microphones and speakers, kept current through devicechange
+ */
+export const useAudioDevices = () => {
+  // null until the first enumeration finishes
+  const [devices, setDevices] = useState<AudioDeviceList | null>(null)
+  const [canSelectOutput, setCanSelectOutput] = useState(false)
+
+  /**
+   * Enumerate devices again, e.g. once permission reveals their labels
+   */
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return
+
+    try {
+      setDevices(await listAudioDevices())
+    } catch (error) {
+      log.error("Failed to list audio devices:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    setCanSelectOutput(supportsOutputSelection())
+    if (!navigator.mediaDevices) return
+
+    refreshDevices()
+    navigator.mediaDevices.addEventListener("devicechange", refreshDevices)
+    return () =>
+      navigator.mediaDevices.removeEventListener("devicechange", refreshDevices)
+  }, [refreshDevices])
+
+  return {
+    inputDevices: devices?.inputs ?? [],
+    outputDevices: devices?.outputs ?? [],
+    hasListedDevices: devices !== null,
+    canSelectOutput,
+    refreshDevices,
+  }
+}
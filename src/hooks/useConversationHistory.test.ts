@@ -0,0 +1,76 @@
+import { act, renderHook, waitFor } from "@testing-library/react"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { VoiceMessage } from "@/types/hume"
+import { saveSession } from "@/lib/conversationStore"
+import { useConversationHistory } from "./useConversationHistory"
+
+vi.mock("@/lib/conversationStore", () => ({
+  listSessions: vi.fn(async () => []),
+  getSession: vi.fn(async () => null),
+  saveSession: vi.fn(async () => {}),
+  renameSession: vi.fn(async () => {}),
+  deleteSession: vi.fn(async () => {}),
+}))
+
+const message = (content: string): VoiceMessage => ({
+  id: `user-${content}`,
+  type: "user",
+  content,
+  timestamp: new Date(),
+  emotions: [],
+})
+
+type HistoryProps = Parameters<typeof useConversationHistory>[0]
+
+const renderHistory = (messages: VoiceMessage[], persist?: boolean) => {
+  const initialProps: HistoryProps = { messages, chatIds: null, persist }
+  return renderHook((props) => useConversationHistory(props), {
+    initialProps,
+  })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+describe("useConversationHistory", () => {
+  it("writes rapid updates once, with the latest messages", async () => {
+    const first = [message("hello")]
+    const { rerender } = renderHistory(first)
+    rerender({ messages: [...first, message("again")], chatIds: null })
+
+    await waitFor(() => expect(saveSession).toHaveBeenCalledOnce())
+    expect(vi.mocked(saveSession).mock.lastCall![0].messages).toHaveLength(2)
+  })
+
+  it("writes a scheduled save when unmounted", () => {
+    const { unmount } = renderHistory([message("hello")])
+    expect(saveSession).not.toHaveBeenCalled()
+
+    unmount()
+    expect(saveSession).toHaveBeenCalledOnce()
+  })
+
+  it("keeps the last update of a session left for a new one", async () => {
+    const { result, rerender } = renderHistory([message("hello")])
+    const oldSessionId = result.current.activeSessionId
+
+    act(() => result.current.startNewSession())
+    rerender({ messages: [message("next")], chatIds: null })
+
+    expect(saveSession).toHaveBeenCalledOnce()
+    expect(vi.mocked(saveSession).mock.lastCall![0]).toMatchObject({
+      id: oldSessionId,
+      title: "hello",
+    })
+    await waitFor(() => expect(saveSession).toHaveBeenCalledTimes(2))
+  })
+
+  it("stores nothing while persisting is off", () => {
+    const { result, unmount } = renderHistory([message("replayed")], false)
+
+    unmount()
+    expect(saveSession).not.toHaveBeenCalled()
+    expect(result.current.activeSessionId).toBeNull()
+  })
+})
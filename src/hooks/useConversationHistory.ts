@@ -0,0 +1,312 @@
+import { useState, useCallback, useRef, useEffect } from "react"
+import {
+  ConversationSession,
+  ConversationSessionSummary,
+  EviChatIds,
+  VoiceMessage,
+} from "@/types/hume"
+import {
+  deleteSession as deleteStoredSession,
+  getSession,
+  listSessions,
+  renameSession as renameStoredSession,
+  saveSession,
+} from "@/lib/conversationStore"
+import { createLogger } from "@/lib/logger"
+
+const log = createLogger("history")
+
+// Batch rapid message updates into one write
+const SAVE_DELAY_MS = 500
+
+const TITLE_MAX_LENGTH = 40
+
+interface ActiveSession {
+  id: string
+  title: string
+  hasCustomTitle: boolean
+  createdAt: Date
+  chatId?: string
+  chatGroupId?: string
+}
+
+// A debounced write, kept so it can be flushed early
+interface PendingSave {
+  sessionId: string
+  timeout: ReturnType<typeof setTimeout>
+  save: () => Promise<void>
+}
+
+interface UseConversationHistoryOptions {
+  messages: VoiceMessage[]
+  chatIds: EviChatIds | null
+  // Off for transcripts that are not real conversations, e.g. replayed traces
+  persist?: boolean
+}
+
+/**
+ * Title a session after its first user message
+ */
+const buildTitle = (messages: VoiceMessage[], createdAt: Date): string => {
+  const firstMessage =
+    messages.find((message) => message.type === "user") ?? messages[0]
+  const content = firstMessage?.content.trim()
+
+  if (!content) {
+    return `Conversation on ${createdAt.toLocaleDateString()}`
+  }
+
+  return content.length > TITLE_MAX_LENGTH
+    ? `${content.slice(0, TITLE_MAX_LENGTH - 1)}…`
+    : content
+}
+
+/**
+ * Custom hook that persists the current conversation to IndexedDB
+ * and manages the list of past sessions
+ */
+export const useConversationHistory = ({
+  messages,
+  chatIds,
+  persist = true,
+}: UseConversationHistoryOptions) => {
+  const [sessions, setSessions] = useState<ConversationSessionSummary[]>([])
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null)
+
+  const activeSessionRef = useRef<ActiveSession | null>(null)
+  // Messages that are already in the store, so loading a session does not rewrite it
+  const savedMessagesRef = useRef<VoiceMessage[] | null>(null)
+  const pendingSaveRef = useRef<PendingSave | null>(null)
+
+  /**
+   * Reload the session list from the store
+   */
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await listSessions())
+    } catch (error) {
+      log.error("Failed to load conversation history:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    refreshSessions()
+  }, [refreshSessions])
+
+  /**
+   * Write the scheduled save now instead of when its timer fires
+   */
+  const flushPendingSave = useCallback(() => {
+    const pending = pendingSaveRef.current
+    if (!pending) return
+
+    pendingSaveRef.current = null
+    clearTimeout(pending.timeout)
+    pending.save()
+  }, [])
+
+  // Persist the conversation whenever it changes
+  useEffect(() => {
+    if (
+      !persist ||
+      messages.length === 0 ||
+      messages === savedMessagesRef.current
+    ) {
+      return
+    }
+
+    if (!activeSessionRef.current) {
+      const createdAt = new Date()
+      activeSessionRef.current = {
+        id: `session-${createdAt.getTime()}`,
+        title: buildTitle(messages, createdAt),
+        hasCustomTitle: false,
+        createdAt,
+      }
+      setActiveSessionId(activeSessionRef.current.id)
+    }
+
+    const activeSession = activeSessionRef.current
+    if (chatIds) {
+      activeSession.chatId = chatIds.chatId
+      activeSession.chatGroupId = chatIds.chatGroupId
+    }
+    if (!activeSession.hasCustomTitle) {
+      activeSession.title = buildTitle(messages, activeSession.createdAt)
+    }
+
+    const save = async () => {
+      const session: ConversationSession = {
+        id: activeSession.id,
+        title: activeSession.title,
+        chatId: activeSession.chatId,
+        chatGroupId: activeSession.chatGroupId,
+        createdAt: activeSession.createdAt,
+        updatedAt: new Date(),
+        messages,
+      }
+
+      try {
+        await saveSession(session)
+        if (activeSessionRef.current?.id === session.id) {
+          savedMessagesRef.current = messages
+        }
+        await refreshSessions()
+      } catch (error) {
+        log.error("Failed to save conversation:", error)
+      }
+    }
+
+    // Newer messages replace a scheduled save of the same session, another
+    // session's save is written before it can be lost
+    const pending = pendingSaveRef.current
+    if (pending?.sessionId === activeSession.id) {
+      clearTimeout(pending.timeout)
+    } else {
+      flushPendingSave()
+    }
+
+    pendingSaveRef.current = {
+      sessionId: activeSession.id,
+      save,
+      timeout: setTimeout(() => {
+        pendingSaveRef.current = null
+        save()
+      }, SAVE_DELAY_MS),
+    }
+  }, [messages, chatIds, persist, refreshSessions, flushPendingSave])
+
+  // Unmounting writes what is still scheduled
+  useEffect(() => () => flushPendingSave(), [flushPendingSave])
+
+  /**
+   * Load a stored session and make it the active one
+   */
+  const openSession = useCallback(
+    async (id: string): Promise<ConversationSession | null> => {
+      try {
+        const session = await getSession(id)
+        if (!session) {
+          log.warn("Conversation not found:", id)
+          return null
+        }
+
+        activeSessionRef.current = {
+          id: session.id,
+          title: session.title,
+          hasCustomTitle: true,
+          createdAt: session.createdAt,
+          chatId: session.chatId,
+          chatGroupId: session.chatGroupId,
+        }
+        savedMessagesRef.current = session.messages
+        setActiveSessionId(session.id)
+
+        return session
+      } catch (error) {
+        log.error("Failed to open conversation:", error)
+        return null
+      }
+    },
+    []
+  )
+
+  /**
+   * Store an imported session under a new id and make it the active one
+   */
+  const importSession = useCallback(
+    async (imported: ConversationSession): Promise<ConversationSession> => {
+      const importedAt = new Date()
+      const session: ConversationSession = {
+        ...imported,
+        id: `session-${importedAt.getTime()}`,
+        updatedAt: importedAt,
+      }
+
+      await saveSession(session)
+      activeSessionRef.current = {
+        id: session.id,
+        title: session.title,
+        hasCustomTitle: true,
+        createdAt: session.createdAt,
+        chatId: session.chatId,
+        chatGroupId: session.chatGroupId,
+      }
+      savedMessagesRef.current = session.messages
+      setActiveSessionId(session.id)
+      await refreshSessions()
+
+      return session
+    },
+    [refreshSessions]
+  )
+
+  const renameSession = useCallback(
+    async (id: string, title: string) => {
+      const trimmedTitle = title.trim()
+      if (!trimmedTitle) return
+
+      try {
+        await renameStoredSession(id, trimmedTitle)
+        if (activeSessionRef.current?.id === id) {
+          activeSessionRef.current.title = trimmedTitle
+          activeSessionRef.current.hasCustomTitle = true
+        }
+        await refreshSessions()
+      } catch (error) {
+        log.error("Failed to rename conversation:", error)
+      }
+    },
+    [refreshSessions]
+  )
+
+  /**
+   * Delete a stored session, returns whether it was the active one
+   */
+  const deleteSession = useCallback(
+    async (id: string): Promise<boolean> => {
+      const wasActive = activeSessionRef.current?.id === id
+
+      // A scheduled save would bring the session back
+      if (pendingSaveRef.current?.sessionId === id) {
+        clearTimeout(pendingSaveRef.current.timeout)
+        pendingSaveRef.current = null
+      }
+
+      try {
+        await deleteStoredSession(id)
+        if (wasActive) {
+          activeSessionRef.current = null
+          savedMessagesRef.current = null
+          setActiveSessionId(null)
+        }
+        await refreshSessions()
+      } catch (error) {
+        log.error("Failed to delete conversation:", error)
+        return false
+      }
+
+      return wasActive
+    },
+    [refreshSessions]
+  )
+
+  /**
+   * Detach from the active session so the next message starts a new one
+   */
+  const startNewSession = useCallback(() => {
+    activeSessionRef.current = null
+    savedMessagesRef.current = null
+    setActiveSessionId(null)
+  }, [])
+
+  return {
+    sessions,
+    activeSessionId,
+    openSession,
+    importSession,
+    renameSession,
+    deleteSession,
+    startNewSession,
+  }
+}
@@ -0,0 +1,468 @@
+import { act, renderHook, waitFor } from "@testing-library/react"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { useVoiceChat } from "./useVoiceChat"
+import {
+  createMockEviServer,
+  createWavChunk,
+  eviFrames,
+  MockEviServer,
+  MockEviSession,
+  send,
+} from "@/test/mockEviServer"
+import { FakeMediaEnvironment, installFakeMedia } from "@/test/fakeMedia"
+import { getSession, saveSession } from "@/lib/conversationStore"
+import { ConversationSession } from "@/types/hume"
+
+vi.mock("@/lib/humeAuth", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/humeAuth")>()),
+  getAccessToken: async () => "test-token",
+}))
+
+// jsdom has no IndexedDB, stored sessions come from the test
+vi.mock("@/lib/conversationStore", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/conversationStore")>()),
+  getSession: vi.fn(async () => null),
+  saveSession: vi.fn(async () => {}),
+}))
+
+// Reconnect right away instead of waiting out the real backoff
+vi.mock("@/lib/connectionPolicy", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/connectionPolicy")>()),
+  getReconnectDelay: () => 10,
+}))
+
+let server: MockEviServer | null = null
+let media: FakeMediaEnvironment
+
+/**
+ * Start a mock server with the sessions and connect the hook to it
+ */
+const connectTo = async (sessions: MockEviSession[]) => {
+  server = await createMockEviServer(sessions)
+  const baseUrl = server.url
+  const hook = renderHook(() => useVoiceChat({ baseUrl }))
+
+  await act(() => hook.result.current.connect())
+  await waitFor(() =>
+    expect(hook.result.current.connectionState.status).toBe("open")
+  )
+  return hook
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  media = installFakeMedia()
+})
+
+afterEach(async () => {
+  await server?.close()
+  server = null
+})
+
+describe("useVoiceChat against the mock EVI server", () => {
+  it("opens the chat with the access token and config", async () => {
+    const { result } = await connectTo([[send(eviFrames.chatMetadata())]])
+    const [connection] = server!.connections
+
+    expect(connection.url.pathname).toBe("/v0/evi/chat")
+    expect(connection.url.searchParams.get("access_token")).toBe("test-token")
+    await waitFor(() =>
+      expect(result.current.chatIds).toEqual({
+        chatId: "chat-1",
+        chatGroupId: "group-1",
+      })
+    )
+  })
+
+  it("builds the transcript in order and skips interim transcripts", async () => {
+    const { result } = await connectTo([
+      [
+        send(eviFrames.chatMetadata()),
+        send(eviFrames.userMessage("Hel", { interim: true })),
+        send(
+          eviFrames.userMessage("Hello Freja", {
+            prosody: { Calmness: 0.2, Joy: 0.7 },
+          })
+        ),
+        send(
+          eviFrames.assistantMessage("Hi there!", {
+            prosody: { Interest: 0.4 },
+          })
+        ),
+        send(eviFrames.assistantEnd()),
+      ],
+    ])
+
+    await waitFor(() =>
+      expect(result.current.conversationState.messages).toHaveLength(2)
+    )
+    const [user, assistant] = result.current.conversationState.messages
+    expect(user).toMatchObject({ type: "user", content: "Hello Freja" })
+    expect(user.emotions?.map(({ name }) => name)).toEqual(["Joy", "Calmness"])
+    expect(assistant).toMatchObject({
+      type: "assistant",
+      content: "Hi there!",
+      emotions: [{ name: "Interest", score: 0.4 }],
+    })
+  })
+
+  it("plays audio_output chunks back to back in arrival order", async () => {
+    const { result } = await connectTo([
+      [
+        send(eviFrames.assistantMessage("One moment")),
+        send(eviFrames.audioOutput(createWavChunk(200), { index: 0 })),
+        send(eviFrames.audioOutput(createWavChunk(300), { index: 1 })),
+        send(eviFrames.audioOutput(createWavChunk(100), { index: 2 })),
+        send(eviFrames.assistantEnd()),
+      ],
+    ])
+
+    const context = media.audioContexts[0]
+    await waitFor(() => expect(context.scheduled).toHaveLength(3))
+    await waitFor(() =>
+      expect(result.current.conversationState.isPlaying).toBe(true)
+    )
+
+    const durations = context.scheduled.map(({ buffer }) => buffer?.duration)
+    expect(durations).toEqual([0.2, 0.3, 0.1])
+    // Each chunk starts exactly where the previous one ends
+    context.scheduled.slice(1).forEach((source, i) => {
+      expect(source.startTime).toBeCloseTo(context.scheduled[i].endTime)
+    })
+
+    act(() => context.advanceTime(1))
+    await waitFor(() =>
+      expect(result.current.conversationState.isPlaying).toBe(false)
+    )
+  })
+
+  it("stops playback and marks the reply interrupted on user_interruption", async () => {
+    const { result } = await connectTo([
+      [
+        send(eviFrames.assistantMessage("A long story")),
+        send(eviFrames.audioOutput(createWavChunk(500))),
+        { kind: "delay", ms: 50 },
+        send(eviFrames.userInterruption()),
+      ],
+    ])
+
+    const context = media.audioContexts[0]
+    await waitFor(() =>
+      expect(result.current.conversationState.messages[0]?.isTruncated).toBe(
+        true
+      )
+    )
+    expect(result.current.conversationState.isPlaying).toBe(false)
+    expect(context.scheduled[0].stopped).toBe(true)
+  })
+
+  it("reports EVI errors as typed errors outside the transcript", async () => {
+    const { result } = await connectTo([
+      [
+        send(eviFrames.error("Config not found", { code: "E0710" })),
+        send(
+          eviFrames.error("You have run out of credits", {
+            code: "E0300",
+            slug: "out_of_credits",
+          })
+        ),
+      ],
+    ])
+
+    await waitFor(() => expect(result.current.errors).toHaveLength(2))
+    expect(
+      result.current.errors.map(({ kind, code, message }) => ({
+        kind,
+        code,
+        message,
+      }))
+    ).toEqual([
+      { kind: "server", code: "E0710", message: "Config not found" },
+      { kind: "quota", code: "E0300", message: "You have run out of credits" },
+    ])
+    expect(result.current.conversationState.messages).toEqual([])
+    expect(result.current.connectionState.status).toBe("open")
+
+    act(() => result.current.dismissError(result.current.errors[0].id))
+    expect(result.current.errors.map(({ kind }) => kind)).toEqual(["quota"])
+  })
+
+  it("answers a tool call that leaves out response_required", async () => {
+    server = await createMockEviServer([
+      // Optional fields such as tool_type and response_required are omitted
+      [send(eviFrames.toolCall("get_weather", { city: "Oslo" }))],
+    ])
+    const baseUrl = server.url
+    const { result } = renderHook(() => useVoiceChat({ baseUrl }))
+    act(() => {
+      result.current.registerTool({
+        name: "get_weather",
+        parameters: {
+          type: "object",
+          properties: { city: { type: "string" } },
+          required: ["city"],
+        },
+        handler: async ({ city }) => `Sunny in ${city}`,
+      })
+    })
+    await act(() => result.current.connect())
+
+    const connection = await server.waitForConnection(1)
+    const response = await connection.waitForMessage("tool_response")
+    expect(response).toMatchObject({
+      tool_call_id: "call-1",
+      content: "Sunny in Oslo",
+    })
+    await waitFor(() =>
+      expect(
+        result.current.conversationState.messages[0]?.toolInvocation?.status
+      ).toBe("succeeded")
+    )
+  })
+
+  it("asks for microphone access again after it was denied", async () => {
+    const { result } = await connectTo([[]])
+    media.getUserMedia.mockRejectedValueOnce(
+      new DOMException("Permission denied", "NotAllowedError")
+    )
+
+    await act(() => expect(result.current.startRecording()).rejects.toThrow())
+    expect(result.current.errors).toMatchObject([
+      { kind: "mic-permission-denied", actions: ["grant-microphone"] },
+    ])
+
+    await act(() => result.current.startRecording())
+    expect(result.current.conversationState.isRecording).toBe(true)
+    expect(result.current.errors).toEqual([])
+  })
+
+  it("reconnects after an abrupt close and resumes the chat group", async () => {
+    const { result } = await connectTo([
+      [send(eviFrames.chatMetadata("chat-1", "group-1")), { kind: "drop" }],
+      [send(eviFrames.chatMetadata("chat-2", "group-1"))],
+    ])
+
+    const reconnected = await server!.waitForConnection(2)
+    expect(reconnected.url.searchParams.get("resumed_chat_group_id")).toBe(
+      "group-1"
+    )
+    await waitFor(() => expect(result.current.chatIds?.chatId).toBe("chat-2"))
+    expect(result.current.connectionState.status).toBe("open")
+    expect(result.current.sessionMetrics.reconnects).toBe(1)
+  })
+
+  it("fails without retrying when EVI closes with an application error", async () => {
+    const { result } = await connectTo([
+      [
+        { kind: "delay", ms: 100 },
+        { kind: "close", code: 4001, reason: "Invalid config" },
+      ],
+    ])
+
+    await waitFor(() =>
+      expect(result.current.connectionState.status).toBe("failed")
+    )
+    expect(server!.connections).toHaveLength(1)
+  })
+
+  it("times each turn and sends the timings as telemetry", async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 204 }))
+    vi.stubGlobal("fetch", fetchMock)
+
+    const hook = await connectTo([
+      [
+        { kind: "waitFor", type: "user_input" },
+        send(eviFrames.userMessage("How are you?", { fromText: true })),
+        send(eviFrames.assistantMessage("Doing well")),
+        send(eviFrames.audioOutput(createWavChunk(100))),
+        send(eviFrames.assistantEnd()),
+      ],
+    ])
+
+    act(() => hook.result.current.sendTextMessage("How are you?"))
+    await waitFor(() =>
+      expect(hook.result.current.sessionMetrics.turns).toHaveLength(1)
+    )
+
+    const [turn] = hook.result.current.sessionMetrics.turns
+    expect(turn.isTyped).toBe(true)
+    expect(turn.userMessageMs).not.toBeNull()
+    expect(turn.assistantMessageMs).toBeGreaterThanOrEqual(turn.userMessageMs!)
+    expect(turn.firstAudioMs).toBeGreaterThanOrEqual(turn.assistantMessageMs!)
+    expect(turn.assistantEndMs).toBeGreaterThanOrEqual(turn.assistantMessageMs!)
+
+    // Pending telemetry goes out when the hook unmounts
+    hook.unmount()
+    expect(fetchMock).toHaveBeenCalledOnce()
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ]
+    expect(url).toBe("/api/telemetry")
+    expect(JSON.parse(init.body as string).events).toEqual([
+      { type: "turn", ...turn },
+    ])
+  })
+
+  it("records a trace that replays into the same transcript offline", async () => {
+    server = await createMockEviServer([
+      [
+        { kind: "delay", ms: 50 },
+        send(eviFrames.chatMetadata()),
+        send(eviFrames.userMessage("Tell me a joke")),
+        send(eviFrames.assistantMessage("Why did the chicken...")),
+        send(eviFrames.audioOutput(createWavChunk(200))),
+        send(eviFrames.assistantEnd()),
+      ],
+    ])
+    const baseUrl = server.url
+    const { result } = renderHook(() => useVoiceChat({ baseUrl }))
+
+    act(() => result.current.startTrafficRecording())
+    await act(() => result.current.connect())
+    await waitFor(() =>
+      expect(result.current.conversationState.messages).toHaveLength(2)
+    )
+    const recorded = result.current.conversationState.messages.map(
+      ({ type, content }) => ({ type, content })
+    )
+    act(() => {
+      result.current.disconnect()
+      result.current.stopTrafficRecording()
+    })
+    await waitFor(() =>
+      expect(result.current.connectionState.status).toBe("idle")
+    )
+
+    const createObjectURL = vi.spyOn(URL, "createObjectURL")
+    act(() => result.current.downloadTrafficTrace())
+    const trace = await (createObjectURL.mock.lastCall?.[0] as Blob).text()
+    const [header, ...entries] = trace
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line))
+    expect(header).toMatchObject({ format: "freja-evi-trace", version: 1 })
+    expect(entries[0]).toMatchObject({ dir: "event", event: "open" })
+    expect(entries[0].url).not.toContain("access_token")
+    expect(entries.filter(({ dir }) => dir === "in")).toHaveLength(5)
+
+    // Nothing may reach the network during replay
+    await server.close()
+    server = null
+    act(() => result.current.replayTrafficTrace(trace, 0))
+    expect(result.current.traceReplayState).toMatchObject({
+      status: "playing",
+      total: 5,
+    })
+    await waitFor(() =>
+      expect(result.current.traceReplayState.status).toBe("idle")
+    )
+
+    expect(
+      result.current.conversationState.messages.map(({ type, content }) => ({
+        type,
+        content,
+      }))
+    ).toEqual(recorded)
+    expect(result.current.connectionState.status).toBe("idle")
+    // A replay is not a conversation of its own in the history
+    expect(result.current.activeSessionId).toBeNull()
+  })
+
+  it("ends the live chat before opening a stored conversation", async () => {
+    const stored: ConversationSession = {
+      id: "session-old",
+      title: "Yesterday",
+      chatGroupId: "group-old",
+      createdAt: new Date("2024-05-01T10:00:00.000Z"),
+      updatedAt: new Date("2024-05-01T10:05:00.000Z"),
+      messages: [
+        {
+          id: "user-old",
+          type: "user",
+          content: "Good night",
+          timestamp: new Date("2024-05-01T10:00:05.000Z"),
+          emotions: [],
+        },
+      ],
+    }
+    vi.mocked(getSession).mockResolvedValueOnce(stored)
+    const { result } = await connectTo([
+      [
+        send(eviFrames.chatMetadata("chat-live", "group-live")),
+        { kind: "delay", ms: 200 },
+        send(eviFrames.userMessage("Still talking")),
+      ],
+    ])
+    await waitFor(() => expect(result.current.chatIds).not.toBeNull())
+
+    await act(() => result.current.openSession("session-old"))
+    await server!.connections[0].done
+
+    expect(server!.connections[0].isClosed()).toBe(true)
+    expect(result.current.chatIds).toBeNull()
+    expect(result.current.conversationState.messages).toEqual(stored.messages)
+    // The live chat's ids and turns stay out of the stored conversation
+    expect(vi.mocked(saveSession).mock.calls).not.toContainEqual([
+      expect.objectContaining({ id: "session-old" }),
+    ])
+  })
+
+  it("streams recorded webm chunks to EVI as audio_input", async () => {
+    const { result } = await connectTo([[]])
+
+    await act(() => result.current.startRecording())
+    expect(media.getUserMedia).toHaveBeenCalledOnce()
+    expect(result.current.conversationState.isRecording).toBe(true)
+
+    const recorder = media.recorders[0]
+    expect(recorder.state).toBe("recording")
+    recorder.emitData(new Blob(["webm-bytes"], { type: "audio/webm" }))
+
+    const audioInput =
+      await server!.connections[0].waitForMessage("audio_input")
+    expect(atob(audioInput.data as string)).toBe("webm-bytes")
+
+    act(() => result.current.stopRecording())
+    expect(result.current.conversationState.isRecording).toBe(false)
+    // The stream outlives the microphone and carries silence from here on
+    expect(recorder.state).toBe("recording")
+  })
+
+  it("keeps an idle webm link busy with silent audio before the mic opens", async () => {
+    const { result } = await connectTo([[]])
+
+    expect(result.current.conversationState.isRecording).toBe(false)
+    expect(media.getUserMedia).not.toHaveBeenCalled()
+    const [recorder] = media.recorders
+    expect(recorder.state).toBe("recording")
+    recorder.emitData(new Blob(["silence"], { type: "audio/webm" }))
+
+    const audioInput =
+      await server!.connections[0].waitForMessage("audio_input")
+    expect(atob(audioInput.data as string)).toBe("silence")
+  })
+
+  it("starts a new webm recorder when a reconnect opens a new chat", async () => {
+    const { result } = await connectTo([
+      [{ kind: "waitFor", type: "audio_input" }, { kind: "drop" }],
+      [],
+    ])
+
+    await act(() => result.current.startRecording())
+    const firstRecorder = media.recorders[0]
+    firstRecorder.emitData(new Blob(["header-and-cluster"]))
+
+    const reconnected = await server!.waitForConnection(2)
+    await waitFor(() => expect(media.recorders).toHaveLength(2))
+    expect(firstRecorder.state).toBe("inactive")
+    expect(result.current.conversationState.isRecording).toBe(true)
+
+    // Clusters of the old container must not reach the new chat
+    firstRecorder.emitData(new Blob(["stale-cluster"]))
+    media.recorders[1].emitData(new Blob(["fresh-header"]))
+
+    const audioInput = await reconnected.waitForMessage("audio_input")
+    expect(atob(audioInput.data as string)).toBe("fresh-header")
+  })
+})
@@ -1,16 +1,249 @@
 import { useState, useCallback, useRef, useEffect } from "react"
-import { ConversationState, VoiceMessage, VoiceSettings } from "@/types/hume"
+import {
+  AppError,
+  AudioConfig,
+  AudioInputStats,
+  AudioLevelListener,
+  CaptureMode,
+  ClientTool,
+  ConnectionState,
+  ConversationSession,
+  ConversationState,
+  DiagnosticsSnapshot,
+  EmotionScore,
+  EviChatIds,
+  EviInboundMessage,
+  EviOutboundMessage,
+  SessionMetrics,
+  SocketTrafficStats,
+  TelemetryEvent,
+  ToolCallMessage,
+  ToolInvocation,
+  TraceReplayState,
+  UnknownEviMessage,
+  HumeConfig,
+  VoiceMessage,
+  VoiceSettings,
+} from "@/types/hume"
+import { clearAccessToken, getAccessToken } from "@/lib/humeAuth"
+import {
+  MAX_RECONNECT_ATTEMPTS,
+  STABLE_CONNECTION_MS,
+  classifyCloseCode,
+  getReconnectDelay,
+  isRetryableConnectError,
+} from "@/lib/connectionPolicy"
+import {
+  LivenessMonitor,
+  createLivenessMonitor,
+} from "@/lib/connectionLiveness"
+import { DEFAULT_HUME_CONFIG, EVI_CONFIGS } from "@/config/eviConfigs"
+import { assertNever, parseEviMessage } from "@/lib/eviMessages"
+import { normalizeProsody } from "@/lib/emotions"
+import { ToolRegistry, createToolRegistry } from "@/lib/tools/toolRegistry"
+import { validateJsonSchema } from "@/lib/tools/jsonSchema"
+import { useConversationHistory } from "./useConversationHistory"
+import { useAudioDevices } from "./useAudioDevices"
+import {
+  PcmStreamPlayer,
+  createPcmStreamPlayer,
+} from "@/lib/audio/pcmStreamPlayer"
+import {
+  PcmFormat,
+  base64ToBytes,
+  bytesToBase64,
+  parseWavHeader,
+} from "@/lib/audio/wav"
+import {
+  PcmClip,
+  appendToPcmClip,
+  createAudioClipStore,
+  createPcmClip,
+} from "@/lib/audio/audioClipStore"
+import {
+  PcmCapture,
+  resolveCaptureMode,
+  startPcmCapture,
+} from "@/lib/audio/pcmCapture"
+import { WebmCapture, startWebmCapture } from "@/lib/audio/webmCapture"
+import {
+  AudioSendQueue,
+  EMPTY_AUDIO_INPUT_STATS,
+  EnqueueOptions,
+  createAudioSendQueue,
+} from "@/lib/audio/audioSendQueue"
+import {
+  VoiceActivityDetector,
+  createVoiceActivityDetector,
+} from "@/lib/audio/voiceActivityDetector"
+import { isMissingDeviceError, setOutputDevice } from "@/lib/audio/audioDevices"
+import {
+  AudioAnalyser,
+  createAudioAnalyser,
+  createAudioLevelStream,
+} from "@/lib/audio/audioAnalyser"
+import {
+  TraceReplay,
+  TrafficRecorder,
+  createTrafficRecorder,
+  parseTrace,
+  replayTrace,
+} from "@/lib/trafficTrace"
+import { downloadBlob } from "@/lib/export/conversationExport"
+import { createLogger } from "@/lib/logger"
+import {
+  UnsupportedBrowserError,
+  classifyClose,
+  classifyError,
+  classifyEviError,
+  createAppError,
+} from "@/lib/appErrors"
+import { createTurnMetricsTracker } from "@/lib/turnMetrics"
+import { TelemetryClient, createTelemetryClient } from "@/lib/telemetry"
+
+const socketLog = createLogger("evi:socket")
+const messageLog = createLogger("evi:messages")
+const captureLog = createLogger("audio:capture")
+const playbackLog = createLogger("audio:playback")
+const toolLog = createLogger("tools")
+
+// Sustained level needed before hands-free mode treats input as speech
+const VAD_ATTACK_MS = 90
+// PCM frames held while the hands-free gate is closed, replayed on speech start
+const PRE_ROLL_FRAMES = 3
+// WebM has no frames to hold, its microphone runs this far behind the gate instead
+const WEBM_PRE_ROLL_SECONDS = 0.3
+// Input at or below this level counts as silence, a live mic always has a noise floor
+const SILENT_INPUT_DB = -80
+// How long recorded silence lasts before the user is warned
+const SILENT_INPUT_WARNING_MS = 5000
+
+// User turns are recorded locally for replay, independent of what EVI receives
+const REPLAY_CAPTURE_CONFIG: AudioConfig = {
+  sampleRate: 16000,
+  channels: 1,
+  encoding: "linear16",
+}
+const REPLAY_CAPTURE_FORMAT: PcmFormat = {
+  sampleRate: 16000,
+  channels: 1,
+  bitsPerSample: 16,
+  audioFormat: 1,
+}
+// Longest stretch of a user turn kept for replay, two minutes of 16-bit audio
+const MAX_USER_CLIP_BYTES = 16000 * 2 * 120
+const BYTES_PER_MB = 1024 * 1024
+
+const EMPTY_SESSION_METRICS: SessionMetrics = {
+  turns: [],
+  reconnects: 0,
+  droppedChunks: 0,
+  playbackErrors: 0,
+}
+
+type CounterEvent = Exclude<TelemetryEvent, { type: "turn" }>
+
+// Session counter each telemetry event adds to
+const METRIC_COUNTERS: Record<
+  CounterEvent["type"],
+  Exclude<keyof SessionMetrics, "turns">
+> = {
+  reconnect: "reconnects",
+  dropped_chunks: "droppedChunks",
+  playback_error: "playbackErrors",
+}
+
+// Older problems drop off once this many are shown
+const MAX_VISIBLE_ERRORS = 5
+
+let messageCount = 0
+
+/**
+ * Unique transcript id, messages can arrive within the same millisecond
+ */
+const createMessageId = (type: VoiceMessage["type"]) =>
+  `${type}-${Date.now()}-${messageCount++}`
+
+const EMPTY_TRAFFIC_STATS: SocketTrafficStats = {
+  framesIn: 0,
+  framesOut: 0,
+  bytesIn: 0,
+  bytesOut: 0,
+}
+
+/**
+ * Size of a socket frame, strings are counted in characters
+ */
+const getFrameSize = (data: unknown): number => {
+  if (typeof data === "string") return data.length
+  if (data instanceof ArrayBuffer) return data.byteLength
+  if (ArrayBuffer.isView(data)) return data.byteLength
+  if (data instanceof Blob) return data.size
+  return 0
+}
+
+/**
+ * Build the EVI chat WebSocket URL for a config and access token
+ */
+const buildChatUrl = (config: HumeConfig, accessToken: string): string => {
+  const params = new URLSearchParams({ access_token: accessToken })
+
+  if (config.configId) {
+    params.set("config_id", config.configId)
+  }
+  if (config.configVersion !== undefined) {
+    params.set("config_version", String(config.configVersion))
+  }
+  if (config.resumedChatGroupId) {
+    params.set("resumed_chat_group_id", config.resumedChatGroupId)
+  }
+
+  const baseUrl = (config.baseUrl || DEFAULT_HUME_CONFIG.baseUrl || "").replace(
+    /\/+$/,
+    ""
+  )
+
+  return `${baseUrl}/v0/evi/chat?${params.toString()}`
+}
+
+/**
+ * Flag the assistant reply that was cut off, if it is still the latest turn
+ */
+const markLatestReplyTruncated = (messages: VoiceMessage[]): VoiceMessage[] => {
+  const index = messages.findLastIndex((message) => message.type !== "tool")
+  if (index === -1 || messages[index].type !== "assistant") {
+    return messages
+  }
+
+  return messages.map((message, i) =>
+    i === index ? { ...message, isTruncated: true } : message
+  )
+}
 
 /**
  * Custom hook for managing voice chat functionality with Hume AI EVI
  * Uses WebSocket connection for real-time speech-to-speech interaction
  */
-export const useVoiceChat = () => {
+export const useVoiceChat = (options: HumeConfig = {}) => {
+  // EVI config used for the next connection
+  const [humeConfig, setHumeConfig] = useState<HumeConfig>(() => ({
+    ...DEFAULT_HUME_CONFIG,
+    ...options,
+  }))
+  const humeConfigRef = useRef(humeConfig)
+
+  useEffect(() => {
+    humeConfigRef.current = humeConfig
+  }, [humeConfig])
+
   // Conversation state management
   const [conversationState, setConversationState] = useState<ConversationState>(
     {
       messages: [],
       isRecording: false,
+      isMicPaused: false,
+      isUserSpeaking: false,
+      isInputSilent: false,
       isProcessing: false,
       isPlaying: false,
     }
@@ -22,229 +255,713 @@ export const useVoiceChat = () => {
     speakerEnabled: true,
     volume: 0.8,
     autoPlay: true,
+    captureMode: "auto",
+    pcmSampleRate: 16000,
+    inputMode: "toggle",
+    pushToTalkKey: "Space",
+    vadThresholdDb: -45,
+    vadHangoverMs: 800,
+    bargeInEnabled: false,
+    inputDeviceId: null,
+    outputDeviceId: null,
+    replayAudioLimitMb: 50,
   })
 
+  const voiceSettingsRef = useRef(voiceSettings)
+
+  // Keep output gain in sync with the volume setting
+  useEffect(() => {
+    voiceSettingsRef.current = voiceSettings
+    if (gainNodeRef.current) {
+      gainNodeRef.current.gain.value = Math.min(voiceSettings.volume * 0.9, 0.9)
+    }
+  }, [voiceSettings])
+
   // Connection and audio state
-  const [isConnected, setIsConnected] = useState(false)
+  const [connectionState, setConnectionStateValue] = useState<ConnectionState>({
+    status: "idle",
+  })
+  const isConnected = connectionState.status === "open"
+  const [chatIds, setChatIds] = useState<EviChatIds | null>(null)
+  const [errors, setErrors] = useState<AppError[]>([])
+  const [isTrafficRecording, setIsTrafficRecording] = useState(false)
+  const [hasTrafficTrace, setHasTrafficTrace] = useState(false)
+  const [traceReplayState, setTraceReplayState] = useState<TraceReplayState>({
+    status: "idle",
+  })
+  // The transcript came from a trace, so it is kept out of the history
+  const [isReplaySession, setIsReplaySession] = useState(false)
+  const [sessionMetrics, setSessionMetrics] = useState<SessionMetrics>(
+    EMPTY_SESSION_METRICS
+  )
+  const [audioInputStats, setAudioInputStats] = useState<AudioInputStats>(
+    EMPTY_AUDIO_INPUT_STATS
+  )
+  // Capture mode negotiated for the current connection
+  const [activeCaptureMode, setActiveCaptureMode] = useState<Exclude<
+    CaptureMode,
+    "auto"
+  > | null>(null)
+
+  // Conversation persistence
+  const {
+    sessions,
+    activeSessionId,
+    openSession: openStoredSession,
+    importSession,
+    renameSession,
+    deleteSession: deleteStoredSession,
+    startNewSession,
+  } = useConversationHistory({
+    messages: conversationState.messages,
+    chatIds,
+    persist: !isReplaySession,
+  })
+
+  // Microphones and speakers to choose from
+  const {
+    inputDevices,
+    outputDevices,
+    hasListedDevices,
+    canSelectOutput,
+    refreshDevices,
+  } = useAudioDevices()
 
   // Refs for managing audio and connection
   const socketRef = useRef<WebSocket | null>(null)
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null)
+  const webmCaptureRef = useRef<WebmCapture | null>(null)
+  const pcmCaptureRef = useRef<PcmCapture | null>(null)
+  const captureModeRef = useRef<Exclude<CaptureMode, "auto">>("webm")
+  const pcmAudioConfigRef = useRef<AudioConfig | null>(null)
   const audioStreamRef = useRef<MediaStream | null>(null)
-  const audioQueueRef = useRef<Blob[]>([])
-  const currentAudioRef = useRef<HTMLAudioElement | null>(null)
-  const isPlayingRef = useRef(false)
+  // Device the open stream was requested with, null for the system default
+  const streamDeviceIdRef = useRef<string | null>(null)
   const audioContextRef = useRef<AudioContext | null>(null)
   const gainNodeRef = useRef<GainNode | null>(null)
-  const mediaSourceRef = useRef<MediaSource | null>(null)
-  const sourceBufferRef = useRef<SourceBuffer | null>(null)
-  const audioChunksBuffer = useRef<Uint8Array[]>([])
-  const isStreamingAudioRef = useRef(false)
+  const playerRef = useRef<PcmStreamPlayer | null>(null)
+  const vadRef = useRef<VoiceActivityDetector | null>(null)
+  const inputAnalyserRef = useRef<AudioAnalyser | null>(null)
+  const outputAnalyserRef = useRef<AudioAnalyser | null>(null)
+  const levelStreamRef = useRef(
+    createAudioLevelStream({
+      getInput: () => inputAnalyserRef.current,
+      getOutput: () => outputAnalyserRef.current,
+    })
+  )
+
+  // Replay audio, evicted clips leave their message without a player
+  const clipStoreRef = useRef(
+    createAudioClipStore({
+      maxBytes: voiceSettings.replayAudioLimitMb * BYTES_PER_MB,
+      onEvict: (messageId) =>
+        setConversationState((prev) => ({
+          ...prev,
+          messages: prev.messages.map((message) =>
+            message.id === messageId
+              ? { ...message, audioUrl: undefined }
+              : message
+          ),
+        })),
+    })
+  )
+  const replayCaptureRef = useRef<PcmCapture | null>(null)
+  const userClipRef = useRef<PcmClip>(createPcmClip(REPLAY_CAPTURE_FORMAT))
+  const assistantClipRef = useRef<{ messageId: string; clip: PcmClip } | null>(
+    null
+  )
+  // Whether captured audio reaches EVI, closed between utterances in always-on mode
+  const audioGateOpenRef = useRef(true)
+  const preRollFramesRef = useRef<string[]>([])
 
   // WebSocket connection state and buffering
-  const connectionStateRef = useRef<
-    "connecting" | "connected" | "disconnected"
-  >("disconnected")
-  const lastAudioSentRef = useRef<number>(0)
+  const connectionStateRef = useRef<ConnectionState>({ status: "idle" })
+  const reconnectAttemptRef = useRef(0)
+  const connectAttemptIdRef = useRef(0)
+  const sendQueueRef = useRef<AudioSendQueue | null>(null)
+  const resumeChatGroupIdRef = useRef<string | null>(null)
+  const pendingTypedInputsRef = useRef<string[]>([])
+  const pushToTalkHeldRef = useRef(false)
+  // Local barge-in: EVI responses are paused and the cut-off reply is dropped
+  const assistantPausedRef = useRef(false)
+  const suppressAssistantOutputRef = useRef(false)
+  const alwaysOnAttemptedRef = useRef(false)
+  const toolRegistryRef = useRef<ToolRegistry>(createToolRegistry())
+  const toolAbortControllersRef = useRef<Set<AbortController>>(new Set())
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null)
-  const keepAliveIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  const livenessRef = useRef<LivenessMonitor | null>(null)
+  // Opt-in capture of raw socket traffic, kept after stopping for download
+  const trafficRecorderRef = useRef<TrafficRecorder | null>(null)
+  const isTrafficRecordingRef = useRef(false)
+  const traceReplayRef = useRef<TraceReplay | null>(null)
+  // Diagnostics counters, read on demand so they never cause renders
+  const trafficStatsRef = useRef<SocketTrafficStats>({ ...EMPTY_TRAFFIC_STATS })
+  const userTurnEndedAtRef = useRef<number | null>(null)
+  const responseLatencyRef = useRef<number | null>(null)
+  // Created on mount, the client needs the document
+  const telemetryRef = useRef<TelemetryClient | null>(null)
+  const turnMetricsRef = useRef(
+    createTurnMetricsTracker((turn) => {
+      setSessionMetrics((prev) => ({ ...prev, turns: [...prev.turns, turn] }))
+      // Replayed traces say nothing about the live service
+      if (!traceReplayRef.current) {
+        telemetryRef.current?.record({ type: "turn", ...turn })
+      }
+    })
+  )
+  const lastDroppedChunksRef = useRef(0)
+
+  // Reopens the mic after its device is unplugged, set once the recording callbacks exist
+  const restartRecordingRef = useRef<() => Promise<void>>(async () => {})
+
+  // Starts a fresh WebM container for a new socket, set once the send callbacks exist
+  const startWebmStreamRef = useRef<() => void>(() => {})
+
+  // Latest message handler, so the socket never dispatches to a stale closure
+  const handleEviMessageRef = useRef<(message: EviInboundMessage) => void>(
+    () => {}
+  )
 
   /**
-   * Connect to Hume EVI WebSocket with robust connection handling
+   * Validate a raw frame and hand it to the message handler
+   * Live sockets and trace replays both come through here
    */
-  const connect = useCallback(async () => {
+  const dispatchInboundFrame = useCallback((data: unknown) => {
+    // Any frame shows the link is alive, even one the client cannot use
+    livenessRef.current?.noteInbound()
+
+    let message: EviInboundMessage | UnknownEviMessage
     try {
-      if (
-        connectionStateRef.current === "connecting" ||
-        connectionStateRef.current === "connected"
-      ) {
-        console.log("Already connected or connecting")
+      message = parseEviMessage(data)
+    } catch (error) {
+      messageLog.error("Rejected EVI frame:", error)
+      return
+    }
+
+    if (message.type === "unknown") {
+      messageLog.debug("Ignoring unhandled EVI message:", message.originalType)
+      return
+    }
+    handleEviMessageRef.current(message)
+  }, [])
+
+  /**
+   * Count an event in the session metrics and queue it for telemetry
+   */
+  const recordMetric = useCallback((event: CounterEvent) => {
+    const counter = METRIC_COUNTERS[event.type]
+    const amount = event.type === "dropped_chunks" ? event.count : 1
+    setSessionMetrics((prev) => ({
+      ...prev,
+      [counter]: prev[counter] + amount,
+    }))
+    if (!traceReplayRef.current) {
+      telemetryRef.current?.record(event)
+    }
+  }, [])
+
+  const notePlaybackError = useCallback(
+    (error: unknown) =>
+      recordMetric({
+        type: "playback_error",
+        at: Date.now(),
+        message: error instanceof Error ? error.message : String(error),
+      }),
+    [recordMetric]
+  )
+
+  /**
+   * Send a typed message to EVI if the socket is open
+   */
+  const sendMessage = useCallback((message: EviOutboundMessage): boolean => {
+    const socket = socketRef.current
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      socketLog.warn(`Cannot send ${message.type}: WebSocket not connected`)
+      return false
+    }
+
+    socket.send(JSON.stringify(message))
+    livenessRef.current?.noteOutbound()
+    return true
+  }, [])
+
+  /**
+   * Keep a finished clip for replay and attach it to its message
+   */
+  const attachClip = useCallback((messageId: string, clip: PcmClip) => {
+    const stored = clipStoreRef.current.add(messageId, clip)
+    if (!stored) return
+
+    setConversationState((prev) => ({
+      ...prev,
+      messages: prev.messages.map((message) =>
+        message.id === messageId
+          ? { ...message, audioUrl: stored.url, duration: stored.duration }
+          : message
+      ),
+    }))
+  }, [])
+
+  /**
+   * Close the assistant clip being assembled, if any
+   */
+  const finishAssistantClip = useCallback(() => {
+    const current = assistantClipRef.current
+    assistantClipRef.current = null
+    if (current) {
+      attachClip(current.messageId, current.clip)
+    }
+  }, [attachClip])
+
+  /**
+   * Add an audio_output chunk to the assistant clip, unwrapping its WAV header
+   */
+  const appendAssistantAudio = useCallback((bytes: Uint8Array) => {
+    const current = assistantClipRef.current
+    if (!current) return
+
+    const header = parseWavHeader(bytes)
+    if (header) {
+      current.clip.format ??= header.format
+      appendToPcmClip(current.clip, bytes.subarray(header.dataOffset))
+    } else {
+      appendToPcmClip(current.clip, bytes)
+    }
+  }, [])
+
+  /**
+   * Show a problem to the user, replacing an identical one still on screen
+   */
+  const reportError = useCallback((error: AppError) => {
+    setErrors((prev) =>
+      [
+        ...prev.filter(
+          (shown) =>
+            shown.kind !== error.kind || shown.message !== error.message
+        ),
+        error,
+      ].slice(-MAX_VISIBLE_ERRORS)
+    )
+  }, [])
+
+  const dismissError = useCallback((id: string) => {
+    setErrors((prev) => prev.filter((error) => error.id !== id))
+  }, [])
+
+  /**
+   * Drop shown errors that a recovery has made obsolete
+   */
+  const resolveErrors = useCallback(
+    (isResolved: (error: AppError) => boolean) => {
+      setErrors((prev) =>
+        prev.some(isResolved)
+          ? prev.filter((error) => !isResolved(error))
+          : prev
+      )
+    },
+    []
+  )
+
+  /**
+   * Move the connection state machine, keeping the ref and the rendered state in step
+   */
+  const updateConnectionState = useCallback((next: ConnectionState) => {
+    connectionStateRef.current = next
+    setConnectionStateValue(next)
+  }, [])
+
+  /**
+   * Initialize audio context, output gain and the streaming player
+   */
+  const initializeAudioContext = useCallback(() => {
+    if (!audioContextRef.current) {
+      const context = new (
+        window.AudioContext ||
+        (window as unknown as { webkitAudioContext: typeof AudioContext })
+          .webkitAudioContext
+      )()
+      const gainNode = context.createGain()
+      gainNode.gain.value = Math.min(voiceSettingsRef.current.volume * 0.9, 0.9)
+      gainNode.connect(context.destination)
+      outputAnalyserRef.current = createAudioAnalyser(context, gainNode)
+
+      audioContextRef.current = context
+      gainNodeRef.current = gainNode
+      playerRef.current = createPcmStreamPlayer(context, gainNode, {
+        onPlayingChange: (isPlaying) =>
+          setConversationState((prev) => ({ ...prev, isPlaying })),
+      })
+    }
+
+    // Browsers start contexts suspended until a user gesture
+    if (audioContextRef.current.state === "suspended") {
+      audioContextRef.current.resume().catch((error) => {
+        playbackLog.error("Failed to resume audio context:", error)
+        notePlaybackError(error)
+      })
+    }
+  }, [notePlaybackError])
+
+  /**
+   * Open one EVI WebSocket, retrying with backoff when it fails or drops
+   */
+  const openConnection = useCallback(async () => {
+    /**
+     * Give up and surface the reason
+     */
+    const fail = (error: AppError) => {
+      socketLog.error("Connection failed:", error.message)
+      reconnectAttemptRef.current = 0
+      updateConnectionState({ status: "failed", reason: error.message })
+      reportError(error)
+    }
+
+    /**
+     * Wait with exponential backoff, or for the network while offline
+     */
+    const scheduleReconnect = () => {
+      if (!navigator.onLine) {
+        socketLog.info("Offline, waiting for the network before reconnecting")
+        updateConnectionState({
+          status: "reconnecting",
+          attempt: reconnectAttemptRef.current,
+          nextRetryAt: null,
+          isOffline: true,
+        })
         return
       }
 
-      connectionStateRef.current = "connecting"
-      console.log("Connecting to Hume EVI...")
+      const attempt = reconnectAttemptRef.current + 1
+      if (attempt > MAX_RECONNECT_ATTEMPTS) {
+        fail(
+          createAppError(
+            "network",
+            `Gave up after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts`
+          )
+        )
+        return
+      }
 
-      // Clear any existing reconnection timeout
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current)
+      reconnectAttemptRef.current = attempt
+      recordMetric({ type: "reconnect", at: Date.now(), attempt })
+      const delay = getReconnectDelay(attempt)
+      socketLog.info(`Reconnect attempt ${attempt} in ${delay}ms`)
+      updateConnectionState({
+        status: "reconnecting",
+        attempt,
+        nextRetryAt: Date.now() + delay,
+        isOffline: false,
+      })
+      reconnectTimeoutRef.current = setTimeout(() => {
         reconnectTimeoutRef.current = null
-      }
+        openConnection()
+      }, delay)
+    }
 
-      // Create WebSocket connection with optimized settings
-      const configId = "b0cc7c5a-5f9f-4ec9-94ee-71bdaafd147c"
-      const apiKey = process.env.NEXT_PUBLIC_HUME_API_KEY
+    const { status } = connectionStateRef.current
+    if (status === "connecting" || status === "open") {
+      socketLog.debug("Already connected or connecting")
+      return
+    }
+
+    // A disconnect or a newer attempt during an await leaves this one stale
+    const attemptId = ++connectAttemptIdRef.current
+    const isAttemptCurrent = () =>
+      connectAttemptIdRef.current === attemptId &&
+      connectionStateRef.current.status === "connecting"
+
+    // Clear any pending reconnect, this attempt replaces it
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current)
+      reconnectTimeoutRef.current = null
+    }
+
+    updateConnectionState({ status: "connecting" })
+    socketLog.info("Connecting to Hume EVI...")
 
-      if (!apiKey) {
-        throw new Error("HUME_API_KEY not found in environment variables")
+    // Create the audio context inside the user gesture so playback may start
+    initializeAudioContext()
+
+    try {
+      // Short-lived token from our server, the API key stays server-side
+      const accessToken = await getAccessToken()
+
+      // Disconnected while the token was on its way
+      if (!isAttemptCurrent()) return
+
+      // Resume the previous chat group so EVI keeps the conversation context
+      const resumedChatGroupId =
+        resumeChatGroupIdRef.current ?? humeConfigRef.current.resumedChatGroupId
+      if (resumedChatGroupId) {
+        socketLog.info("Resuming chat group:", resumedChatGroupId)
       }
 
-      const wsUrl = `wss://api.hume.ai/v0/evi/chat?api_key=${apiKey}&config_id=${configId}`
+      const wsUrl = buildChatUrl(
+        { ...humeConfigRef.current, resumedChatGroupId },
+        accessToken
+      )
+
+      // The capture mode is fixed for the lifetime of a connection
+      const captureMode = resolveCaptureMode(
+        voiceSettingsRef.current.captureMode
+      )
+      const pcmAudioConfig: AudioConfig | null =
+        captureMode === "pcm"
+          ? {
+              sampleRate: voiceSettingsRef.current.pcmSampleRate,
+              channels: 1,
+              encoding: "linear16",
+            }
+          : null
+      captureModeRef.current = captureMode
+      pcmAudioConfigRef.current = pcmAudioConfig
+      setActiveCaptureMode(captureMode)
 
       const socket = new WebSocket(wsUrl)
+      let openedAt: number | null = null
+
+      // Route every outbound frame, the send queue's audio included, past the recorder
+      const sendFrame = socket.send.bind(socket)
+      socket.send = (data) => {
+        trafficStatsRef.current.framesOut++
+        trafficStatsRef.current.bytesOut += getFrameSize(data)
+        if (isTrafficRecordingRef.current) {
+          trafficRecorderRef.current?.recordFrame("out", data)
+        }
+        sendFrame(data)
+      }
       socketRef.current = socket
+      assistantPausedRef.current = false
+      suppressAssistantOutputRef.current = false
+
+      /**
+       * Detach this socket so none of its late events reach the hook
+       */
+      const releaseSocket = () => {
+        socketRef.current = null
+        livenessRef.current?.dispose()
+        livenessRef.current = null
+
+        // Queued audio belongs to this session's stream, a new one starts fresh
+        webmCaptureRef.current?.stop()
+        webmCaptureRef.current = null
+        sendQueueRef.current?.reset()
+      }
 
-      // Set up connection timeout
+      // Give up on a handshake that hangs, the close handler schedules a retry
       const connectionTimeout = setTimeout(() => {
         if (socket.readyState === WebSocket.CONNECTING) {
-          console.error("Connection timeout")
+          socketLog.error("Connection timeout")
           socket.close()
-          connectionStateRef.current = "disconnected"
-          setIsConnected(false)
         }
       }, 10000)
 
       socket.onopen = () => {
         clearTimeout(connectionTimeout)
-        console.log("Connected to Hume EVI successfully")
-        connectionStateRef.current = "connected"
-        setIsConnected(true)
-
-        // Start keep-alive ping
-        keepAliveIntervalRef.current = setInterval(() => {
-          if (socket.readyState === WebSocket.OPEN) {
-            console.log("Sending keep-alive ping")
-          }
-        }, 30000) // Every 30 seconds
-      }
+        openedAt = Date.now()
+        socketLog.info("Connected to Hume EVI successfully")
+        resolveErrors((error) => error.actions.includes("retry-connection"))
+        if (isTrafficRecordingRef.current) {
+          trafficRecorderRef.current?.recordOpen(wsUrl)
+        }
+        updateConnectionState({ status: "open" })
+
+        // Raw PCM has no container, so EVI needs to be told its format
+        if (pcmAudioConfig) {
+          sendMessage({
+            type: "session_settings",
+            audio: {
+              encoding: pcmAudioConfig.encoding,
+              sample_rate: pcmAudioConfig.sampleRate,
+              channels: pcmAudioConfig.channels,
+            },
+          })
+          captureLog.info("Declared linear16 audio input:", pcmAudioConfig)
+        } else {
+          // A new chat cannot decode clusters of the previous socket's container,
+          // including those queued while offline
+          sendQueueRef.current?.reset()
+          startWebmStreamRef.current()
+        }
 
-      // Direct message handling - prioritize audio to prevent clipping
-      socket.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data)
-          console.log("Received message:", message.type)
-
-          switch (message.type) {
-            case "session_settings":
-              console.log("Session settings received")
-              break
-
-            case "user_message":
-              console.log("User message:", message.message?.content)
-              if (!message.models?.prosody?.interim) {
-                addUserMessage(message.message?.content || "Voice message")
+        // Keep idle links alive and notice when one silently dies
+        livenessRef.current = createLivenessMonitor(socket, {
+          // PCM links get a short silent frame in the declared format. WebM links
+          // need none, their recorder streams silence whenever the mic is not heard
+          sendKeepAlive: pcmAudioConfig
+            ? () => {
+                const silence = new ArrayBuffer(
+                  Math.round(pcmAudioConfig.sampleRate / 10) * 2
+                )
+                sendMessage({
+                  type: "audio_input",
+                  data: bytesToBase64(silence),
+                })
               }
-              break
+            : undefined,
+          onDead: (reason) => {
+            if (socketRef.current !== socket) return
+            socketLog.warn("Connection looks dead, reconnecting:", reason)
+            releaseSocket()
+            // The close handshake cannot complete on a dead link
+            socket.close()
+            scheduleReconnect()
+          },
+        })
+      }
 
-            case "assistant_message":
-              console.log("Assistant message:", message.message?.content)
-              addAssistantMessage(
-                message.message?.content || "",
-                message.models?.prosody?.scores || []
-              )
-              initializeStreamingAudio()
-              break
-
-            case "audio_output":
-              console.log("Received audio output chunk")
-              handleStreamingAudioOutput(message.data)
-              break
-
-            case "assistant_end":
-              console.log("Assistant finished speaking")
-              finalizeStreamingAudio()
-              break
-
-            case "user_interruption":
-              console.log("User interruption detected")
-              stopAudioPlayback()
-              break
-
-            case "error":
-              console.error("EVI Error:", message)
-              addErrorMessage(`Error: ${message.message || "Unknown error"}`)
-              break
-
-            default:
-              console.log("Unhandled message type:", message.type)
-          }
-        } catch (error) {
-          console.error("Failed to parse WebSocket message:", error)
+      socket.onmessage = (event) => {
+        trafficStatsRef.current.framesIn++
+        trafficStatsRef.current.bytesIn += getFrameSize(event.data)
+        if (isTrafficRecordingRef.current) {
+          trafficRecorderRef.current?.recordFrame("in", event.data)
         }
+        dispatchInboundFrame(event.data)
       }
 
+      // Every error is followed by a close event, which drives the state machine
       socket.onerror = (error) => {
-        clearTimeout(connectionTimeout)
-        console.error("WebSocket error:", error)
-        connectionStateRef.current = "disconnected"
-        setIsConnected(false)
-        addErrorMessage("Connection error occurred")
+        if (socketRef.current !== socket) return
+        socketLog.error("WebSocket error:", error)
       }
 
       socket.onclose = (event) => {
         clearTimeout(connectionTimeout)
-        console.log("WebSocket connection closed:", event.code, event.reason)
-        connectionStateRef.current = "disconnected"
-        setIsConnected(false)
-
-        // Clear keep-alive interval
-        if (keepAliveIntervalRef.current) {
-          clearInterval(keepAliveIntervalRef.current)
-          keepAliveIntervalRef.current = null
+        if (isTrafficRecordingRef.current) {
+          trafficRecorderRef.current?.recordClose(event.code, event.reason)
+        }
+        // Ignore late events from a socket that has already been replaced
+        if (socketRef.current !== socket) return
+        socketLog.info("WebSocket connection closed:", event.code, event.reason)
+        releaseSocket()
+
+        // A socket that never opened may have been refused over a stale token
+        if (openedAt === null) {
+          clearAccessToken()
         }
 
-        // Auto-reconnect for unexpected closures
-        if (event.code !== 1000 && event.code !== 1001) {
-          console.log("Attempting to reconnect in 3 seconds...")
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connect()
-          }, 3000)
+        switch (classifyCloseCode(event.code)) {
+          case "normal":
+            reconnectAttemptRef.current = 0
+            updateConnectionState({ status: "idle" })
+            break
+          case "fatal":
+            fail(classifyClose(event.code, event.reason))
+            break
+          case "retryable":
+            // A session that stayed up earns a fresh backoff schedule
+            if (
+              openedAt !== null &&
+              Date.now() - openedAt >= STABLE_CONNECTION_MS
+            ) {
+              reconnectAttemptRef.current = 0
+            }
+            scheduleReconnect()
+            break
         }
       }
     } catch (error) {
-      console.error("Failed to connect to Hume EVI:", error)
-      connectionStateRef.current = "disconnected"
-      setIsConnected(false)
-      addErrorMessage(
-        `Failed to connect: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
-      )
-      throw error
+      socketLog.error("Failed to connect to Hume EVI:", error)
+      if (!isAttemptCurrent()) return
+
+      if (isRetryableConnectError(error)) {
+        scheduleReconnect()
+      } else {
+        fail(classifyError(error))
+      }
     }
-  }, [])
+  }, [
+    updateConnectionState,
+    initializeAudioContext,
+    sendMessage,
+    dispatchInboundFrame,
+    recordMetric,
+    reportError,
+    resolveErrors,
+  ])
 
   /**
-   * Send audio input to EVI with throttling to prevent socket overflow
+   * Clear conversation history
    */
-  const sendAudioInput = useCallback((base64Audio: string) => {
-    if (socketRef.current && socketRef.current.readyState === WebSocket.OPEN) {
-      const now = Date.now()
+  const clearConversation = useCallback(() => {
+    resumeChatGroupIdRef.current = null
+    clipStoreRef.current.clear()
+    turnMetricsRef.current.reset()
+    setSessionMetrics(EMPTY_SESSION_METRICS)
+    startNewSession()
+    setIsReplaySession(false)
+    setConversationState((prev) => ({
+      ...prev,
+      messages: [],
+    }))
+  }, [startNewSession])
 
-      // Throttle audio input to prevent overwhelming the socket (min 50ms between sends)
-      if (now - lastAudioSentRef.current < 50) {
-        console.log("Throttling audio input to prevent socket overflow")
-        return
-      }
+  /**
+   * Connect to Hume EVI, starting a fresh retry budget
+   */
+  const connect = useCallback(async () => {
+    // Live traffic and a replayed trace would interleave in the transcript
+    if (traceReplayRef.current) {
+      traceReplayRef.current.stop()
+      traceReplayRef.current = null
+      setTraceReplayState({ status: "idle" })
+    }
+    // A live chat cannot continue a replayed one
+    if (isReplaySession) {
+      clearConversation()
+    }
 
-      const message = {
-        type: "audio_input",
-        data: base64Audio,
-      }
+    reconnectAttemptRef.current = 0
+    await openConnection()
+  }, [openConnection, isReplaySession, clearConversation])
 
-      try {
-        socketRef.current.send(JSON.stringify(message))
-        lastAudioSentRef.current = now
-        console.log("Sent audio chunk, size:", base64Audio.length)
-      } catch (error) {
-        console.error("Failed to send audio input:", error)
-      }
-    } else {
-      console.warn("Cannot send audio: WebSocket not connected")
+  /**
+   * Skip the backoff wait and try to reconnect immediately
+   */
+  const retryConnection = useCallback(async () => {
+    const { status } = connectionStateRef.current
+    if (status !== "reconnecting" && status !== "failed") return
+
+    if (status === "failed") {
+      reconnectAttemptRef.current = 0
     }
-  }, [])
+    await openConnection()
+  }, [openConnection])
 
   /**
-   * Initialize audio context for better processing
+   * Queue audio input for EVI, the send queue applies socket backpressure
    */
-  const initializeAudioContext = useCallback(() => {
-    if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext ||
-        (window as unknown as typeof AudioContext))()
-      gainNodeRef.current = audioContextRef.current.createGain()
-      gainNodeRef.current.connect(audioContextRef.current.destination)
-    }
-  }, [])
+  const sendAudioInput = useCallback(
+    (base64Audio: string, options?: EnqueueOptions) => {
+      if (!sendQueueRef.current) {
+        lastDroppedChunksRef.current = 0
+        sendQueueRef.current = createAudioSendQueue({
+          getSocket: () => socketRef.current,
+          onStatsChange: (stats) => {
+            setAudioInputStats(stats)
+            const dropped = stats.droppedChunks - lastDroppedChunksRef.current
+            if (dropped > 0) {
+              lastDroppedChunksRef.current = stats.droppedChunks
+              recordMetric({
+                type: "dropped_chunks",
+                at: Date.now(),
+                count: dropped,
+              })
+            }
+          },
+        })
+      }
+
+      // Voice in the outgoing audio marks the latest possible end of the user's speech
+      const levels = inputAnalyserRef.current?.read()
+      if (levels && levels.db > voiceSettingsRef.current.vadThresholdDb) {
+        turnMetricsRef.current.noteVoice()
+      }
+
+      sendQueueRef.current.enqueue(base64Audio, options)
+      livenessRef.current?.noteOutbound()
+    },
+    [recordMetric]
+  )
 
   /**
    * Convert blob to base64 using FileReader (more efficient)
@@ -262,164 +979,213 @@ export const useVoiceChat = () => {
   }, [])
 
   /**
-   * Initialize simple audio playback (more reliable than MediaSource)
+   * Make sure the player is ready before the assistant starts speaking
    */
   const initializeStreamingAudio = useCallback(() => {
     try {
-      if (!voiceSettings.speakerEnabled) return
-
-      console.log("Initializing audio playback for assistant response")
-
-      // Clear any existing audio queue and reset state
-      audioQueueRef.current = []
-      isStreamingAudioRef.current = true
-
-      setConversationState((prev) => ({ ...prev, isPlaying: true }))
+      if (!voiceSettingsRef.current.speakerEnabled) return
+      initializeAudioContext()
     } catch (error) {
-      console.error("Failed to initialize audio:", error)
+      playbackLog.error("Failed to initialize audio:", error)
+      notePlaybackError(error)
     }
-  }, [voiceSettings.speakerEnabled])
+  }, [initializeAudioContext, notePlaybackError])
 
   /**
-   * Handle audio output chunks - using simple blob approach
+   * Decode an audio_output chunk and schedule it on the player
    */
   const handleStreamingAudioOutput = useCallback(
-    (base64Audio: string) => {
+    (bytes: Uint8Array) => {
       try {
-        if (!voiceSettings.speakerEnabled || !isStreamingAudioRef.current)
-          return
-
-        console.log("Processing audio chunk, length:", base64Audio.length)
-
-        // Convert base64 to blob
-        const binaryString = atob(base64Audio)
-        const bytes = new Uint8Array(binaryString.length)
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i)
-        }
-
-        // Try different audio formats - EVI might send various formats
-        // First try as raw audio/wav
-        const audioBlob = new Blob([bytes], { type: "audio/wav" })
-
-        // If the chunk is too small, it might not be valid audio
-        if (bytes.length < 100) {
-          console.warn("Audio chunk too small, skipping:", bytes.length)
-          return
-        }
+        if (!voiceSettingsRef.current.speakerEnabled) return
 
-        console.log("Created audio blob:", audioBlob.size, "bytes")
-
-        // Add to queue for sequential playback
-        audioQueueRef.current.push(audioBlob)
-
-        // Start playing if not already playing
-        if (!isPlayingRef.current && audioQueueRef.current.length > 0) {
-          playNextAudioChunk()
+        initializeAudioContext()
+        const delaySeconds = playerRef.current?.enqueue(bytes) ?? null
+        if (delaySeconds !== null) {
+          turnMetricsRef.current.noteAudioScheduled(delaySeconds * 1000)
         }
       } catch (error) {
-        console.error("Failed to handle audio chunk:", error)
+        playbackLog.error("Failed to handle audio chunk:", error)
+        notePlaybackError(error)
       }
     },
-    [voiceSettings.speakerEnabled]
+    [initializeAudioContext, notePlaybackError]
   )
 
   /**
-   * Play next audio chunk in queue
+   * Assistant finished sending audio, scheduled buffers play out on their own
    */
-  const playNextAudioChunk = useCallback(() => {
-    if (audioQueueRef.current.length === 0 || isPlayingRef.current) return
-
-    const audioBlob = audioQueueRef.current.shift()
-    if (!audioBlob) return
-
-    console.log("Playing audio chunk")
-
-    isPlayingRef.current = true
-
-    const audioUrl = URL.createObjectURL(audioBlob)
-    const audio = new Audio(audioUrl)
-
-    // Set volume with some headroom to prevent clipping
-    audio.volume = Math.min(voiceSettings.volume * 0.9, 0.9)
-    audio.preload = "auto"
-
-    currentAudioRef.current = audio
-
-    audio.onended = () => {
-      console.log("Audio chunk finished")
-      URL.revokeObjectURL(audioUrl)
-      currentAudioRef.current = null
-      isPlayingRef.current = false
-
-      // Small delay before next chunk to prevent overlap
-      setTimeout(() => {
-        if (audioQueueRef.current.length > 0) {
-          playNextAudioChunk()
-        } else if (!isStreamingAudioRef.current) {
-          // All chunks played and assistant finished
-          setConversationState((prev) => ({ ...prev, isPlaying: false }))
-        }
-      }, 50)
-    }
-
-    audio.onerror = (error) => {
-      console.error("Audio playback error:", error)
-      URL.revokeObjectURL(audioUrl)
-      currentAudioRef.current = null
-      isPlayingRef.current = false
-
-      // Try next chunk even if this one failed
-      setTimeout(() => {
-        if (audioQueueRef.current.length > 0) {
-          playNextAudioChunk()
-        }
-      }, 100)
-    }
-
-    // Start playback
-    audio.play().catch((error) => {
-      console.error("Failed to start audio playback:", error)
-      URL.revokeObjectURL(audioUrl)
-      currentAudioRef.current = null
-      isPlayingRef.current = false
-
-      // Try next chunk
-      setTimeout(() => {
-        if (audioQueueRef.current.length > 0) {
-          playNextAudioChunk()
-        }
-      }, 100)
-    })
-  }, [voiceSettings.volume])
+  const finalizeStreamingAudio = useCallback(() => {
+    playbackLog.debug(
+      "Assistant finished speaking, buffered seconds:",
+      playerRef.current?.getBufferedSeconds().toFixed(2) ?? 0
+    )
+  }, [])
 
   /**
-   * Finalize audio when assistant finishes speaking
+   * Stop audio playback immediately, dropping anything still scheduled
    */
-  const finalizeStreamingAudio = useCallback(() => {
+  const stopAudioPlayback = useCallback(() => {
     try {
-      console.log("Assistant finished speaking, finalizing audio")
-
-      // Mark streaming as finished
-      isStreamingAudioRef.current = false
-
-      // If no audio is currently playing and queue is empty, update state
-      if (!isPlayingRef.current && audioQueueRef.current.length === 0) {
-        setConversationState((prev) => ({ ...prev, isPlaying: false }))
-      }
-
-      // The audio will finish naturally as chunks complete
+      playerRef.current?.flush()
     } catch (error) {
-      console.error("Failed to finalize audio:", error)
+      playbackLog.error("Error stopping audio playback:", error)
     }
   }, [])
 
   /**
-   * Start recording audio from user's microphone
+   * Local barge-in: silence the assistant now rather than after EVI's user_interruption
+   * Responses stay paused until the user's next turn reaches EVI
    */
-  const startRecording = useCallback(async () => {
-    try {
-      if (!isConnected || !socketRef.current) {
+  const interruptAssistant = useCallback(() => {
+    if (!playerRef.current?.isPlaying()) return
+
+    playbackLog.info("Interrupting assistant locally")
+    livenessRef.current?.setAwaitingReply(false)
+    stopAudioPlayback()
+    finishAssistantClip()
+    suppressAssistantOutputRef.current = true
+    setConversationState((prev) => ({
+      ...prev,
+      messages: markLatestReplyTruncated(prev.messages),
+    }))
+
+    if (
+      !assistantPausedRef.current &&
+      sendMessage({ type: "pause_assistant_message" })
+    ) {
+      assistantPausedRef.current = true
+    }
+  }, [stopAudioPlayback, sendMessage, finishAssistantClip])
+
+  /**
+   * Let EVI respond again after a local barge-in
+   */
+  const resumeAssistant = useCallback(() => {
+    if (
+      assistantPausedRef.current &&
+      sendMessage({ type: "resume_assistant_message" })
+    ) {
+      assistantPausedRef.current = false
+    }
+  }, [sendMessage])
+
+  /**
+   * Open or close the gate between the microphone and EVI
+   * WebM carries silence while closed so it stays one container
+   */
+  const setAudioGate = useCallback(
+    (open: boolean) => {
+      if (audioGateOpenRef.current === open) return
+      audioGateOpenRef.current = open
+
+      webmCaptureRef.current?.setOpen(open)
+      if (!open) return
+
+      preRollFramesRef.current.forEach((frame) =>
+        sendAudioInput(frame, { sheddable: true })
+      )
+      preRollFramesRef.current = []
+    },
+    [sendAudioInput]
+  )
+
+  /**
+   * Gate an open microphone stream on local voice activity
+   */
+  const startVoiceActivityDetection = useCallback(
+    (stream: MediaStream) => {
+      const context = audioContextRef.current
+      if (!context) return
+
+      const settings = voiceSettingsRef.current
+      webmCaptureRef.current?.setPreRoll(WEBM_PRE_ROLL_SECONDS)
+      setAudioGate(false)
+
+      vadRef.current = createVoiceActivityDetector(
+        context,
+        stream,
+        {
+          thresholdDb: settings.vadThresholdDb,
+          hangoverMs: settings.vadHangoverMs,
+          attackMs: VAD_ATTACK_MS,
+        },
+        {
+          onSpeechStart: () => {
+            if (playerRef.current?.isPlaying()) {
+              // Assistant audio leaking into the mic is not user speech
+              if (!voiceSettingsRef.current.bargeInEnabled) {
+                vadRef.current?.reset()
+                return
+              }
+              interruptAssistant()
+            }
+
+            setAudioGate(true)
+            setConversationState((prev) => ({ ...prev, isUserSpeaking: true }))
+          },
+          onSpeechEnd: () => {
+            setAudioGate(false)
+            setConversationState((prev) => ({ ...prev, isUserSpeaking: false }))
+          },
+        }
+      )
+    },
+    [setAudioGate, interruptAssistant]
+  )
+
+  /**
+   * Stop voice activity detection and leave the gate open
+   */
+  const stopVoiceActivityDetection = useCallback(() => {
+    vadRef.current?.stop()
+    vadRef.current = null
+    preRollFramesRef.current = []
+    webmCaptureRef.current?.setPreRoll(0)
+    setConversationState((prev) => ({ ...prev, isUserSpeaking: false }))
+  }, [])
+
+  /**
+   * Start the connection's webm/opus stream, the microphone joins it once open
+   * Each chat needs audio that starts with the WebM header
+   */
+  const startWebmStream = useCallback(() => {
+    const context = audioContextRef.current
+    if (!context) return
+    webmCaptureRef.current?.stop()
+
+    // Encode chunks one after another so WebM clusters keep their order
+    let encodeChain = Promise.resolve()
+
+    const capture = startWebmCapture(context, (chunk) => {
+      encodeChain = encodeChain
+        .then(() => blobToBase64(chunk))
+        .then((base64Audio) => {
+          // A replaced stream's chunks belong to a container EVI no longer reads
+          if (webmCaptureRef.current !== capture) return
+          sendAudioInput(base64Audio)
+        })
+        .catch((error) => {
+          captureLog.error("Failed to send audio data:", error)
+        })
+    })
+    capture.setInput(audioStreamRef.current)
+    capture.setPreRoll(vadRef.current ? WEBM_PRE_ROLL_SECONDS : 0)
+    capture.setOpen(audioGateOpenRef.current)
+    webmCaptureRef.current = capture
+    captureLog.info("Started the webm stream for the new connection")
+  }, [sendAudioInput, blobToBase64])
+
+  useEffect(() => {
+    startWebmStreamRef.current = startWebmStream
+  }, [startWebmStream])
+
+  /**
+   * Start recording audio from user's microphone
+   */
+  const startRecording = useCallback(async () => {
+    try {
+      if (!isConnected || !socketRef.current) {
         throw new Error("Not connected to Hume EVI. Please connect first.")
       }
 
@@ -427,67 +1193,159 @@ export const useVoiceChat = () => {
         throw new Error("Microphone is disabled")
       }
 
-      console.log("Starting audio recording...")
+      if (!navigator.mediaDevices?.getUserMedia) {
+        throw new UnsupportedBrowserError("microphone access")
+      }
+
+      captureLog.info("Starting audio recording...")
 
       // Initialize audio context
       initializeAudioContext()
 
       // Get user media with proper constraints for EVI
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          sampleRate: 48000,
-          channelCount: 1,
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        },
-      })
-
-      audioStreamRef.current = stream
+      const requestMicrophone = (deviceId: string | null) =>
+        navigator.mediaDevices.getUserMedia({
+          audio: {
+            deviceId: deviceId ? { exact: deviceId } : undefined,
+            sampleRate: 48000,
+            channelCount: 1,
+            echoCancellation: true,
+            noiseSuppression: true,
+            autoGainControl: true,
+          },
+        })
+
+      let { inputDeviceId } = voiceSettingsRef.current
+      let stream: MediaStream
+      try {
+        stream = await requestMicrophone(inputDeviceId)
+      } catch (error) {
+        if (!inputDeviceId || !isMissingDeviceError(error)) throw error
+        inputDeviceId = null
+
+        captureLog.warn(
+          "Selected microphone unavailable, using default:",
+          error
+        )
+        setVoiceSettings((prev) => ({ ...prev, inputDeviceId: null }))
+        reportError(
+          createAppError(
+            "device-not-found",
+            "The selected microphone is not available, switched to the system default.",
+            { severity: "warning" }
+          )
+        )
+        stream = await requestMicrophone(null)
+      }
 
-      // Create MediaRecorder with WebM format
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: "audio/webm;codecs=opus",
-        audioBitsPerSecond: 64000, // Optimize bitrate to reduce clipping
+      // Permission has been granted, so device labels are readable now
+      refreshDevices()
+
+      // Unplugging the device ends the track without stopping the recorder
+      stream.getAudioTracks().forEach((track) => {
+        track.onended = () => {
+          if (audioStreamRef.current !== stream) return
+          captureLog.warn("Microphone track ended:", track.label)
+          if (!voiceSettingsRef.current.inputDeviceId) {
+            reportError(
+              createAppError(
+                "device-not-found",
+                "The microphone was disconnected, switched to the system default.",
+                { severity: "warning" }
+              )
+            )
+          }
+          restartRecordingRef.current().catch(() => {
+            // Already reported through reportError
+          })
+        }
       })
 
-      mediaRecorderRef.current = mediaRecorder
+      audioStreamRef.current = stream
+      streamDeviceIdRef.current = inputDeviceId
+      if (audioContextRef.current) {
+        inputAnalyserRef.current?.disconnect()
+        inputAnalyserRef.current = createAudioAnalyser(
+          audioContextRef.current,
+          stream
+        )
+      }
 
-      mediaRecorder.ondataavailable = async (event) => {
-        if (event.data.size > 0) {
-          try {
-            // Use improved base64 conversion
-            const base64Audio = await blobToBase64(event.data)
-            sendAudioInput(base64Audio)
-          } catch (error) {
-            console.error("Failed to send audio data:", error)
+      // Record what the user says locally so their turns can be replayed
+      if (
+        voiceSettingsRef.current.replayAudioLimitMb > 0 &&
+        audioContextRef.current
+      ) {
+        userClipRef.current = createPcmClip(REPLAY_CAPTURE_FORMAT)
+        replayCaptureRef.current = await startPcmCapture(
+          audioContextRef.current,
+          stream,
+          REPLAY_CAPTURE_CONFIG,
+          (frame) => {
+            // Keep only what EVI hears as well
+            const isMuted = stream
+              .getAudioTracks()
+              .every((track) => !track.enabled)
+            if (!audioGateOpenRef.current || isMuted) return
+
+            appendToPcmClip(
+              userClipRef.current,
+              new Uint8Array(frame),
+              MAX_USER_CLIP_BYTES
+            )
           }
-        }
+        ).catch((error) => {
+          captureLog.warn("Replay capture unavailable:", error)
+          return null
+        })
       }
+      audioGateOpenRef.current =
+        voiceSettingsRef.current.inputMode !== "always-on"
+      preRollFramesRef.current = []
 
-      mediaRecorder.onstop = () => {
-        console.log("Recording stopped")
-        setConversationState((prev) => ({
-          ...prev,
-          isRecording: false,
-        }))
-      }
+      if (captureModeRef.current === "pcm" && pcmAudioConfigRef.current) {
+        if (!audioContextRef.current) {
+          throw new Error("Audio context is not available for PCM capture")
+        }
 
-      mediaRecorder.start(100) // Optimized for socket throttling (100ms chunks, 50ms send throttle)
+        // Raw linear16 frames are self-contained and may be shed under pressure
+        pcmCaptureRef.current = await startPcmCapture(
+          audioContextRef.current,
+          stream,
+          pcmAudioConfigRef.current,
+          (frame) => {
+            const base64Frame = bytesToBase64(frame)
+            if (audioGateOpenRef.current) {
+              sendAudioInput(base64Frame, { sheddable: true })
+              return
+            }
+
+            // Keep the start of an utterance the detector has not confirmed yet
+            preRollFramesRef.current.push(base64Frame)
+            if (preRollFramesRef.current.length > PRE_ROLL_FRAMES) {
+              preRollFramesRef.current.shift()
+            }
+          }
+        )
+      } else {
+        webmCaptureRef.current?.setInput(stream)
+        webmCaptureRef.current?.setOpen(audioGateOpenRef.current)
+      }
 
       setConversationState((prev) => ({
         ...prev,
         isRecording: true,
       }))
 
-      console.log("Recording started successfully")
-    } catch (error) {
-      console.error("Failed to start recording:", error)
-      addErrorMessage(
-        `Failed to start recording: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
+      captureLog.info("Recording started successfully")
+      resolveErrors(
+        (error) =>
+          error.kind === "mic-permission-denied" ||
+          (error.kind === "device-not-found" && error.severity === "error")
       )
+    } catch (error) {
+      captureLog.error("Failed to start recording:", error)
+      reportError(classifyError(error))
       throw error
     }
   }, [
@@ -495,7 +1353,9 @@ export const useVoiceChat = () => {
     voiceSettings.microphoneEnabled,
     sendAudioInput,
     initializeAudioContext,
-    blobToBase64,
+    refreshDevices,
+    reportError,
+    resolveErrors,
   ])
 
   /**
@@ -503,178 +1363,325 @@ export const useVoiceChat = () => {
    */
   const stopRecording = useCallback(() => {
     try {
-      if (
-        mediaRecorderRef.current &&
-        mediaRecorderRef.current.state !== "inactive"
-      ) {
-        mediaRecorderRef.current.stop()
-      }
+      stopVoiceActivityDetection()
+      inputAnalyserRef.current?.disconnect()
+      inputAnalyserRef.current = null
+      replayCaptureRef.current?.stop()
+      replayCaptureRef.current = null
+      pcmCaptureRef.current?.stop()
+      pcmCaptureRef.current = null
+
+      // The webm stream keeps the link alive with silence until it closes
+      webmCaptureRef.current?.setInput(null)
 
       if (audioStreamRef.current) {
         audioStreamRef.current.getTracks().forEach((track) => track.stop())
         audioStreamRef.current = null
       }
 
+      pushToTalkHeldRef.current = false
       setConversationState((prev) => ({
         ...prev,
         isRecording: false,
+        isMicPaused: false,
       }))
 
-      console.log("Recording stopped successfully")
+      captureLog.info("Recording stopped successfully")
     } catch (error) {
-      console.error("Failed to stop recording:", error)
+      captureLog.error("Failed to stop recording:", error)
     }
-  }, [])
-
-  // Note: handleAudioOutput is now replaced by handleStreamingAudioOutput for better performance
-
-  // Note: playNextAudio is no longer needed as we use streaming audio for continuous playback
+  }, [stopVoiceActivityDetection])
 
   /**
-   * Stop audio playback and cleanup streaming resources
+   * Mute the microphone without tearing down the stream
+   * Disabled tracks are silent, so the WebM stream stays one continuous container
    */
-  const stopAudioPlayback = useCallback(() => {
-    try {
-      // Stop current audio
-      if (currentAudioRef.current) {
-        currentAudioRef.current.pause()
-        currentAudioRef.current.currentTime = 0
-      }
+  const pauseRecording = useCallback(() => {
+    audioStreamRef.current?.getAudioTracks().forEach((track) => {
+      track.enabled = false
+    })
+    setConversationState((prev) => ({ ...prev, isMicPaused: true }))
+  }, [])
 
-      // Close media source if streaming
-      if (
-        mediaSourceRef.current &&
-        mediaSourceRef.current.readyState === "open"
-      ) {
-        mediaSourceRef.current.endOfStream()
-      }
+  /**
+   * Unmute a paused microphone stream
+   */
+  const resumeRecording = useCallback(() => {
+    audioStreamRef.current?.getAudioTracks().forEach((track) => {
+      track.enabled = true
+    })
+    setConversationState((prev) => ({ ...prev, isMicPaused: false }))
+  }, [])
 
-      // Clear streaming state
-      isStreamingAudioRef.current = false
-      isPlayingRef.current = false
+  /**
+   * Push-to-talk press: open the mic on first use, unmute afterwards
+   */
+  const beginPushToTalk = useCallback(async () => {
+    if (pushToTalkHeldRef.current) return
+    pushToTalkHeldRef.current = true
 
-      // Clear buffers
-      audioQueueRef.current.length = 0
-      audioChunksBuffer.current.length = 0
+    if (audioStreamRef.current) {
+      resumeRecording()
+      return
+    }
 
-      // Clean up refs
-      if (currentAudioRef.current) {
-        URL.revokeObjectURL(currentAudioRef.current.src)
-        currentAudioRef.current = null
-      }
-      mediaSourceRef.current = null
-      sourceBufferRef.current = null
+    await startRecording()
 
-      setConversationState((prev) => ({
-        ...prev,
-        isPlaying: false,
-      }))
-    } catch (error) {
-      console.error("Error stopping audio playback:", error)
+    // Released while getUserMedia was still pending
+    if (!pushToTalkHeldRef.current) {
+      pauseRecording()
     }
-  }, [])
+  }, [startRecording, pauseRecording, resumeRecording])
+
+  /**
+   * Push-to-talk release: keep the stream but stop sending speech
+   */
+  const endPushToTalk = useCallback(() => {
+    if (!pushToTalkHeldRef.current) return
+    pushToTalkHeldRef.current = false
+    pauseRecording()
+  }, [pauseRecording])
 
   /**
    * Add user message to conversation
    */
-  const addUserMessage = useCallback((content: string) => {
-    const message: VoiceMessage = {
-      id: `user-${Date.now()}`,
-      type: "user",
-      content,
-      timestamp: new Date(),
-    }
+  const addUserMessage = useCallback(
+    (content: string, emotions: EmotionScore[] = [], isTyped = false) => {
+      const message: VoiceMessage = {
+        id: createMessageId("user"),
+        type: "user",
+        content,
+        timestamp: new Date(),
+        emotions,
+        isTyped,
+      }
 
-    setConversationState((prev) => ({
-      ...prev,
-      messages: [...prev.messages, message],
-    }))
-  }, [])
+      setConversationState((prev) => ({
+        ...prev,
+        messages: [...prev.messages, message],
+      }))
+      return message.id
+    },
+    []
+  )
 
   /**
    * Add assistant message to conversation
    */
   const addAssistantMessage = useCallback(
-    (
-      content: string,
-      emotions: Array<{ name: string; score: number }> = []
-    ) => {
+    (content: string, emotions: EmotionScore[] = []) => {
       const message: VoiceMessage = {
-        id: `assistant-${Date.now()}`,
+        id: createMessageId("assistant"),
         type: "assistant",
         content,
         timestamp: new Date(),
-        emotions: emotions.map((emotion) => ({
-          name: emotion.name,
-          score: emotion.score,
-        })),
+        emotions,
       }
 
       setConversationState((prev) => ({
         ...prev,
         messages: [...prev.messages, message],
       }))
+      return message.id
     },
     []
   )
 
   /**
-   * Add error message to conversation
+   * Send typed text to EVI as user_input, the assistant answers as usual
    */
-  const addErrorMessage = useCallback((content: string) => {
-    const message: VoiceMessage = {
-      id: `error-${Date.now()}`,
-      type: "assistant",
-      content,
-      timestamp: new Date(),
-    }
+  const sendTextMessage = useCallback(
+    (text: string) => {
+      const content = text.trim()
+      if (!content) return
 
-    setConversationState((prev) => ({
-      ...prev,
-      messages: [...prev.messages, message],
-    }))
-  }, [])
+      if (!isConnected) {
+        throw new Error("Not connected to Hume EVI. Please connect first.")
+      }
+
+      resumeAssistant()
+      if (sendMessage({ type: "user_input", text: content })) {
+        livenessRef.current?.setAwaitingReply(true)
+        turnMetricsRef.current.noteTypedInput()
+        pendingTypedInputsRef.current.push(content)
+        addUserMessage(content, [], true)
+      }
+    },
+    [isConnected, sendMessage, addUserMessage, resumeAssistant]
+  )
 
   /**
-   * Disconnect from EVI and cleanup
+   * Update a message already in the transcript
    */
-  const disconnect = useCallback(() => {
-    try {
-      cleanup()
-      setIsConnected(false)
-      console.log("Disconnected from Hume EVI")
-    } catch (error) {
-      console.error("Error during disconnect:", error)
-    }
-  }, [])
+  const updateMessage = useCallback(
+    (id: string, update: (message: VoiceMessage) => VoiceMessage) => {
+      setConversationState((prev) => ({
+        ...prev,
+        messages: prev.messages.map((message) =>
+          message.id === id ? update(message) : message
+        ),
+      }))
+    },
+    []
+  )
+
+  /**
+   * Register a client tool EVI can call, returns an unregister function
+   */
+  const registerTool = useCallback(
+    (tool: ClientTool) => toolRegistryRef.current.register(tool),
+    []
+  )
+
+  /**
+   * Run a client tool for an EVI tool_call and report the outcome back
+   */
+  const handleToolCall = useCallback(
+    async (call: ToolCallMessage) => {
+      // Builtin tools such as web search run on Hume's side
+      if (call.tool_type === "builtin") {
+        toolLog.debug("Builtin tool call handled by EVI:", call.name)
+        return
+      }
+
+      // EVI leaves the flag out for function tools it waits on
+      const responseRequired = call.response_required !== false
+      const messageId = `tool-${call.tool_call_id}`
+      const invocation: ToolInvocation = {
+        toolCallId: call.tool_call_id,
+        name: call.name,
+        arguments: call.parameters,
+        status: "running",
+      }
+      setConversationState((prev) => ({
+        ...prev,
+        messages: [
+          ...prev.messages,
+          {
+            id: messageId,
+            type: "tool",
+            content: call.name,
+            timestamp: new Date(),
+            toolInvocation: invocation,
+          },
+        ],
+      }))
+
+      const finish = (update: Partial<ToolInvocation>) =>
+        updateMessage(messageId, (message) => ({
+          ...message,
+          toolInvocation: { ...invocation, ...update },
+        }))
+
+      const fail = (error: string, code: string) => {
+        toolLog.error(`Tool "${call.name}" failed:`, error)
+        finish({ status: "failed", error })
+        if (responseRequired) {
+          sendMessage({
+            type: "tool_error",
+            tool_call_id: call.tool_call_id,
+            error,
+            code,
+            content: error,
+          })
+        }
+      }
+
+      const tool = toolRegistryRef.current.get(call.name)
+      if (!tool) {
+        fail(`Tool "${call.name}" is not available`, "tool_not_found")
+        return
+      }
+
+      let args: unknown
+      try {
+        args = call.parameters ? JSON.parse(call.parameters) : {}
+      } catch {
+        fail("Tool arguments are not valid JSON", "invalid_arguments")
+        return
+      }
+
+      const validationErrors = validateJsonSchema(tool.parameters, args)
+      if (validationErrors.length > 0) {
+        fail(
+          `Invalid arguments: ${validationErrors.join("; ")}`,
+          "invalid_arguments"
+        )
+        return
+      }
+
+      const controller = new AbortController()
+      toolAbortControllersRef.current.add(controller)
+
+      try {
+        const result = await tool.handler(args as Record<string, unknown>, {
+          toolCallId: call.tool_call_id,
+          signal: controller.signal,
+        })
+        if (controller.signal.aborted) return
+
+        const content =
+          typeof result === "string" ? result : JSON.stringify(result ?? null)
+
+        finish({ status: "succeeded", result: content })
+        if (
+          responseRequired &&
+          sendMessage({
+            type: "tool_response",
+            tool_call_id: call.tool_call_id,
+            content,
+            tool_name: call.name,
+          })
+        ) {
+          livenessRef.current?.setAwaitingReply(true)
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return
+        fail(
+          error instanceof Error ? error.message : "Unknown error",
+          "tool_failed"
+        )
+      } finally {
+        toolAbortControllersRef.current.delete(controller)
+      }
+    },
+    [sendMessage, updateMessage]
+  )
 
   /**
    * Cleanup all resources including connection management
    */
   const cleanup = useCallback(() => {
     // Stop recording
-    if (
-      mediaRecorderRef.current &&
-      mediaRecorderRef.current.state !== "inactive"
-    ) {
-      mediaRecorderRef.current.stop()
-    }
+    pcmCaptureRef.current?.stop()
+    pcmCaptureRef.current = null
+    webmCaptureRef.current?.stop()
+    webmCaptureRef.current = null
 
     // Stop audio stream
     if (audioStreamRef.current) {
       audioStreamRef.current.getTracks().forEach((track) => track.stop())
       audioStreamRef.current = null
     }
+    stopVoiceActivityDetection()
+    audioGateOpenRef.current = true
+    inputAnalyserRef.current?.disconnect()
+    inputAnalyserRef.current = null
+    replayCaptureRef.current?.stop()
+    replayCaptureRef.current = null
 
     // Stop audio playback and streaming
     stopAudioPlayback()
 
     // Close audio context
+    playerRef.current?.dispose()
+    playerRef.current = null
     if (audioContextRef.current && audioContextRef.current.state !== "closed") {
       audioContextRef.current.close()
-      audioContextRef.current = null
-      gainNodeRef.current = null
     }
+    audioContextRef.current = null
+    gainNodeRef.current = null
+    outputAnalyserRef.current = null
 
     // Clear connection timers
     if (reconnectTimeoutRef.current) {
@@ -682,43 +1689,257 @@ export const useVoiceChat = () => {
       reconnectTimeoutRef.current = null
     }
 
-    if (keepAliveIntervalRef.current) {
-      clearInterval(keepAliveIntervalRef.current)
-      keepAliveIntervalRef.current = null
-    }
-
-    // Close socket
-    if (socketRef.current) {
-      socketRef.current.close()
-      socketRef.current = null
+    livenessRef.current?.dispose()
+    livenessRef.current = null
+
+    // Drop unsent audio
+    sendQueueRef.current?.dispose()
+    sendQueueRef.current = null
+    setAudioInputStats(EMPTY_AUDIO_INPUT_STATS)
+
+    // Close socket, detached first so its close handler does not schedule a reconnect
+    const socket = socketRef.current
+    socketRef.current = null
+    reconnectAttemptRef.current = 0
+    if (socket && socket.readyState !== WebSocket.CLOSED) {
+      updateConnectionState({ status: "closing" })
+      socket.onclose = () => {
+        if (connectionStateRef.current.status === "closing") {
+          updateConnectionState({ status: "idle" })
+        }
+      }
+      socket.close(1000, "Client disconnect")
+    } else {
+      updateConnectionState({ status: "idle" })
     }
 
     // Reset connection state
-    connectionStateRef.current = "disconnected"
+    setChatIds(null)
+    pendingTypedInputsRef.current = []
+
+    // Tool results cannot be delivered once the socket is gone
+    toolAbortControllersRef.current.forEach((controller) => controller.abort())
+    toolAbortControllersRef.current.clear()
+    setActiveCaptureMode(null)
 
-    // Clear all audio buffers and streaming state
-    audioQueueRef.current.length = 0
-    audioChunksBuffer.current.length = 0
-    isStreamingAudioRef.current = false
+    pushToTalkHeldRef.current = false
+    alwaysOnAttemptedRef.current = false
+    assistantPausedRef.current = false
+    suppressAssistantOutputRef.current = false
 
     setConversationState((prev) => ({
       ...prev,
       isRecording: false,
+      isMicPaused: false,
       isProcessing: false,
       isPlaying: false,
     }))
-  }, [stopAudioPlayback])
+  }, [stopAudioPlayback, stopVoiceActivityDetection, updateConnectionState])
 
   /**
-   * Clear conversation history
+   * Disconnect from EVI and cleanup
    */
-  const clearConversation = useCallback(() => {
-    setConversationState((prev) => ({
-      ...prev,
-      messages: [],
-    }))
+  const disconnect = useCallback(() => {
+    try {
+      cleanup()
+      socketLog.info("Disconnected from Hume EVI")
+    } catch (error) {
+      socketLog.error("Error during disconnect:", error)
+    }
+  }, [cleanup])
+
+  /**
+   * Reopen a stored conversation in the transcript, ending any live chat
+   */
+  const openSession = useCallback(
+    async (id: string) => {
+      // The live chat would go on writing its turns and chat ids into the opened session
+      if (connectionStateRef.current.status !== "idle") {
+        disconnect()
+      }
+
+      const session = await openStoredSession(id)
+      if (!session) return null
+
+      // The next connection picks up this session's EVI chat group
+      resumeChatGroupIdRef.current = session.chatGroupId ?? null
+      clipStoreRef.current.clear()
+      setIsReplaySession(false)
+
+      setConversationState((prev) => ({
+        ...prev,
+        messages: session.messages,
+      }))
+
+      return session
+    },
+    [openStoredSession, disconnect]
+  )
+
+  /**
+   * Load an imported conversation into the transcript and history
+   */
+  const importConversation = useCallback(
+    async (imported: ConversationSession) => {
+      if (connectionStateRef.current.status !== "idle") {
+        disconnect()
+      }
+
+      const session = await importSession(imported)
+
+      // An imported chat group may belong to another account, start fresh on connect
+      resumeChatGroupIdRef.current = null
+      clipStoreRef.current.clear()
+      setIsReplaySession(false)
+
+      setConversationState((prev) => ({
+        ...prev,
+        messages: session.messages,
+      }))
+
+      return session
+    },
+    [importSession, disconnect]
+  )
+
+  /**
+   * Reopen a stored conversation and reconnect to its EVI chat group
+   */
+  const continueSession = useCallback(
+    async (id: string) => {
+      const session = await openSession(id)
+      if (!session) return
+
+      if (!session.chatGroupId) {
+        socketLog.warn("Conversation has no EVI chat group to resume:", id)
+      }
+
+      // openSession closed any live chat, the new one resumes this chat group
+      await connect()
+    },
+    [openSession, connect]
+  )
+
+  /**
+   * Delete a stored conversation, clearing the transcript if it was open
+   */
+  const deleteSession = useCallback(
+    async (id: string) => {
+      const wasActive = await deleteStoredSession(id)
+      if (wasActive) {
+        resumeChatGroupIdRef.current = null
+        clipStoreRef.current.clear()
+        setConversationState((prev) => ({
+          ...prev,
+          messages: [],
+        }))
+      }
+    },
+    [deleteStoredSession]
+  )
+
+  /**
+   * Start capturing every socket frame into a fresh trace
+   */
+  const startTrafficRecording = useCallback(() => {
+    trafficRecorderRef.current = createTrafficRecorder()
+    isTrafficRecordingRef.current = true
+    setIsTrafficRecording(true)
+    setHasTrafficTrace(true)
   }, [])
 
+  /**
+   * Stop capturing, the trace stays available for download
+   */
+  const stopTrafficRecording = useCallback(() => {
+    isTrafficRecordingRef.current = false
+    setIsTrafficRecording(false)
+  }, [])
+
+  /**
+   * Save the current or last trace as a .jsonl file
+   */
+  const downloadTrafficTrace = useCallback(() => {
+    const recorder = trafficRecorderRef.current
+    if (!recorder) return
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-")
+    downloadBlob(
+      new Blob([recorder.toJsonl()], { type: "application/jsonl" }),
+      `evi-trace-${stamp}.jsonl`
+    )
+  }, [])
+
+  /**
+   * Stop a running trace replay and silence what it queued
+   */
+  const stopTraceReplay = useCallback(() => {
+    if (!traceReplayRef.current) return
+
+    traceReplayRef.current.stop()
+    traceReplayRef.current = null
+    // The replayed chat group is not one to resume
+    resumeChatGroupIdRef.current = null
+    stopAudioPlayback()
+    setTraceReplayState({ status: "idle" })
+  }, [stopAudioPlayback])
+
+  /**
+   * Feed a recorded trace through the live message handler, without a network
+   * speed scales the recorded timing, 0 plays frames back to back
+   */
+  const replayTrafficTrace = useCallback(
+    (trace: string, speed: number) => {
+      const { status } = connectionStateRef.current
+      if (status !== "idle" && status !== "failed") {
+        throw new Error("Disconnect from Hume EVI before replaying a trace")
+      }
+
+      const entries = parseTrace(trace)
+      stopTraceReplay()
+      clearConversation()
+      setIsReplaySession(true)
+      assistantPausedRef.current = false
+      suppressAssistantOutputRef.current = false
+      initializeAudioContext()
+
+      setTraceReplayState({
+        status: "playing",
+        position: 0,
+        total: entries.filter((entry) => entry.dir === "in").length,
+        speed,
+      })
+      traceReplayRef.current = replayTrace(entries, {
+        speed,
+        onFrame: dispatchInboundFrame,
+        onProgress: (position) =>
+          setTraceReplayState((prev) =>
+            prev.status === "playing" ? { ...prev, position } : prev
+          ),
+        onDone: () => {
+          traceReplayRef.current = null
+          resumeChatGroupIdRef.current = null
+          setTraceReplayState({ status: "idle" })
+        },
+      })
+    },
+    [
+      stopTraceReplay,
+      clearConversation,
+      initializeAudioContext,
+      dispatchInboundFrame,
+    ]
+  )
+
+  /**
+   * Receive mic and playback levels every animation frame, returns an unsubscribe function
+   */
+  const subscribeAudioLevels = useCallback(
+    (listener: AudioLevelListener) =>
+      levelStreamRef.current.subscribe(listener),
+    []
+  )
+
   /**
    * Update voice settings
    */
@@ -732,22 +1953,503 @@ export const useVoiceChat = () => {
     []
   )
 
+  /**
+   * Dispatch a validated EVI message
+   */
+  const handleEviMessage = useCallback(
+    (message: EviInboundMessage) => {
+      messageLog.debug("Received message:", message.type)
+
+      switch (message.type) {
+        case "chat_metadata":
+          messageLog.info(
+            "Chat started:",
+            message.chat_id,
+            message.chat_group_id
+          )
+          // Reconnects resume this chat group
+          resumeChatGroupIdRef.current = message.chat_group_id
+          setChatIds({
+            chatId: message.chat_id,
+            chatGroupId: message.chat_group_id,
+          })
+          break
+
+        case "user_message":
+          messageLog.debug("User message:", message.message.content)
+
+          // The interrupting turn has reached EVI, let it answer
+          resumeAssistant()
+          if (!message.interim) {
+            suppressAssistantOutputRef.current = false
+            turnMetricsRef.current.noteUserMessage()
+          }
+
+          // Typed input is already in the transcript, skip EVI's echo of it
+          if (
+            message.from_text &&
+            pendingTypedInputsRef.current[0] === message.message.content
+          ) {
+            pendingTypedInputsRef.current.shift()
+            break
+          }
+
+          if (!message.interim) {
+            livenessRef.current?.setAwaitingReply(true)
+            userTurnEndedAtRef.current = Date.now()
+            const messageId = addUserMessage(
+              message.message.content || "Voice message",
+              normalizeProsody(message.models.prosody?.scores)
+            )
+
+            // Everything heard since the previous turn belongs to this one
+            attachClip(messageId, userClipRef.current)
+            userClipRef.current = createPcmClip(REPLAY_CAPTURE_FORMAT)
+          }
+          break
+
+        case "assistant_message":
+          messageLog.debug("Assistant message:", message.message.content)
+          if (userTurnEndedAtRef.current !== null) {
+            responseLatencyRef.current = Date.now() - userTurnEndedAtRef.current
+            userTurnEndedAtRef.current = null
+          }
+          if (suppressAssistantOutputRef.current) break
+          turnMetricsRef.current.noteAssistantMessage()
+
+          // Audio that follows belongs to this message
+          finishAssistantClip()
+          assistantClipRef.current = {
+            messageId: addAssistantMessage(
+              message.message.content || "",
+              normalizeProsody(message.models.prosody?.scores)
+            ),
+            clip: createPcmClip(),
+          }
+          initializeStreamingAudio()
+          break
+
+        case "audio_output": {
+          if (suppressAssistantOutputRef.current) break
+          const bytes = base64ToBytes(message.data)
+          appendAssistantAudio(bytes)
+          handleStreamingAudioOutput(bytes)
+          break
+        }
+
+        case "assistant_end":
+          messageLog.debug("Assistant finished speaking")
+          livenessRef.current?.setAwaitingReply(false)
+          turnMetricsRef.current.noteAssistantEnd()
+          finishAssistantClip()
+          finalizeStreamingAudio()
+          break
+
+        case "user_interruption":
+          messageLog.info("User interruption detected")
+          livenessRef.current?.setAwaitingReply(false)
+          suppressAssistantOutputRef.current = false
+          finishAssistantClip()
+          if (playerRef.current?.isPlaying()) {
+            setConversationState((prev) => ({
+              ...prev,
+              messages: markLatestReplyTruncated(prev.messages),
+            }))
+          }
+          stopAudioPlayback()
+          break
+
+        case "tool_call":
+          handleToolCall(message)
+          break
+
+        case "tool_response":
+        case "tool_error":
+          toolLog.debug("Tool result echoed:", message.tool_call_id)
+          break
+
+        case "error":
+          messageLog.error("EVI Error:", message)
+          livenessRef.current?.setAwaitingReply(false)
+          reportError(classifyEviError(message))
+          break
+
+        default:
+          assertNever(message)
+      }
+    },
+    [
+      addUserMessage,
+      addAssistantMessage,
+      reportError,
+      initializeStreamingAudio,
+      handleStreamingAudioOutput,
+      finalizeStreamingAudio,
+      stopAudioPlayback,
+      handleToolCall,
+      resumeAssistant,
+      attachClip,
+      finishAssistantClip,
+      appendAssistantAudio,
+    ]
+  )
+
+  useEffect(() => {
+    handleEviMessageRef.current = handleEviMessage
+  }, [handleEviMessage])
+
+  /**
+   * Update the EVI config used for the next connection
+   */
+  const updateHumeConfig = useCallback((newConfig: Partial<HumeConfig>) => {
+    setHumeConfig((prev) => ({
+      ...prev,
+      ...newConfig,
+    }))
+  }, [])
+
+  /**
+   * Switch to one of the named configurations from app config
+   */
+  const selectEviConfig = useCallback((id: string) => {
+    const namedConfig = EVI_CONFIGS.find((config) => config.id === id)
+    if (!namedConfig) {
+      socketLog.warn("Unknown EVI config:", id)
+      return
+    }
+
+    setHumeConfig((prev) => ({
+      baseUrl: prev.baseUrl,
+      ...namedConfig.config,
+    }))
+  }, [])
+
+  const activeEviConfigId = EVI_CONFIGS.find(
+    (config) =>
+      config.config.configId === humeConfig.configId &&
+      config.config.configVersion === humeConfig.configVersion
+  )?.id
+
+  // Warn when a recording mic delivers nothing, e.g. hardware-muted or the wrong device
+  useEffect(() => {
+    if (!conversationState.isRecording || conversationState.isMicPaused) return
+
+    let loudAt = Date.now()
+    const interval = setInterval(() => {
+      const levels = inputAnalyserRef.current?.read()
+      if (!levels) return
+
+      const now = Date.now()
+      if (levels.db > SILENT_INPUT_DB) {
+        loudAt = now
+      }
+      const isInputSilent = now - loudAt >= SILENT_INPUT_WARNING_MS
+      setConversationState((prev) =>
+        prev.isInputSilent === isInputSilent ? prev : { ...prev, isInputSilent }
+      )
+    }, 500)
+
+    return () => {
+      clearInterval(interval)
+      setConversationState((prev) => ({ ...prev, isInputSilent: false }))
+    }
+  }, [conversationState.isRecording, conversationState.isMicPaused])
+
+  // Reopen the mic on another device, keeping the mute state
+  useEffect(() => {
+    restartRecordingRef.current = async () => {
+      const wasMuted = conversationState.isMicPaused
+      stopRecording()
+
+      // Push-to-talk reopens the mic on the next press
+      if (voiceSettings.inputMode === "push-to-talk") return
+
+      await startRecording()
+      if (wasMuted) {
+        pauseRecording()
+      }
+    }
+  }, [
+    conversationState.isMicPaused,
+    voiceSettings.inputMode,
+    stopRecording,
+    startRecording,
+    pauseRecording,
+  ])
+
+  // Switching microphones while recording reopens the stream on the new one
+  useEffect(() => {
+    if (
+      !audioStreamRef.current ||
+      voiceSettings.inputDeviceId === streamDeviceIdRef.current
+    ) {
+      return
+    }
+
+    restartRecordingRef.current().catch(() => {
+      // Already reported through reportError
+    })
+  }, [voiceSettings.inputDeviceId])
+
+  // A chosen device that disappears falls back to the system default
+  useEffect(() => {
+    if (!hasListedDevices) return
+
+    /**
+     * Whether a chosen device is no longer in the list
+     */
+    const isDeviceMissing = (
+      deviceId: string | null,
+      devices: MediaDeviceInfo[]
+    ): boolean =>
+      deviceId !== null &&
+      // Without permission the browser may list no devices at all
+      devices.length > 0 &&
+      !devices.some((device) => device.deviceId === deviceId)
+
+    const isInputMissing = isDeviceMissing(
+      voiceSettings.inputDeviceId,
+      inputDevices
+    )
+    const isOutputMissing = isDeviceMissing(
+      voiceSettings.outputDeviceId,
+      outputDevices
+    )
+    if (!isInputMissing && !isOutputMissing) return
+
+    setVoiceSettings((prev) => ({
+      ...prev,
+      ...(isInputMissing && { inputDeviceId: null }),
+      ...(isOutputMissing && { outputDeviceId: null }),
+    }))
+    reportError(
+      createAppError(
+        "device-not-found",
+        `The selected ${
+          isInputMissing && isOutputMissing
+            ? "microphone and speaker were"
+            : isInputMissing
+              ? "microphone was"
+              : "speaker was"
+        } disconnected, switched to the system default.`,
+        { severity: "warning" }
+      )
+    )
+  }, [
+    hasListedDevices,
+    inputDevices,
+    outputDevices,
+    voiceSettings.inputDeviceId,
+    voiceSettings.outputDeviceId,
+    reportError,
+  ])
+
+  // Route playback to the chosen speaker once the audio context exists
+  useEffect(() => {
+    const context = audioContextRef.current
+    if (!context || !canSelectOutput) return
+
+    setOutputDevice(context, voiceSettings.outputDeviceId).catch((error) => {
+      playbackLog.error("Failed to switch speaker:", error)
+      if (!voiceSettings.outputDeviceId) return
+
+      setVoiceSettings((prev) => ({ ...prev, outputDeviceId: null }))
+      reportError(
+        createAppError(
+          "device-not-found",
+          "The selected speaker is not available, switched to the system default.",
+          { severity: "warning" }
+        )
+      )
+    })
+  }, [voiceSettings.outputDeviceId, isConnected, canSelectOutput, reportError])
+
+  // Always-on mode opens the mic as soon as the connection is up, once per connection
+  useEffect(() => {
+    if (
+      voiceSettings.inputMode !== "always-on" ||
+      !isConnected ||
+      conversationState.isRecording ||
+      alwaysOnAttemptedRef.current
+    ) {
+      return
+    }
+
+    alwaysOnAttemptedRef.current = true
+    startRecording().catch(() => {
+      // Already reported through reportError
+    })
+  }, [
+    voiceSettings.inputMode,
+    isConnected,
+    conversationState.isRecording,
+    startRecording,
+  ])
+
+  // Hands-free mode gates the open mic on local voice activity
+  useEffect(() => {
+    const isHandsFree =
+      voiceSettings.inputMode === "always-on" && conversationState.isRecording
+
+    if (isHandsFree && !vadRef.current && audioStreamRef.current) {
+      startVoiceActivityDetection(audioStreamRef.current)
+    } else if (!isHandsFree && vadRef.current) {
+      stopVoiceActivityDetection()
+      setAudioGate(true)
+    }
+  }, [
+    voiceSettings.inputMode,
+    conversationState.isRecording,
+    startVoiceActivityDetection,
+    stopVoiceActivityDetection,
+    setAudioGate,
+  ])
+
+  useEffect(() => {
+    clipStoreRef.current.setMaxBytes(
+      voiceSettings.replayAudioLimitMb * BYTES_PER_MB
+    )
+  }, [voiceSettings.replayAudioLimitMb])
+
+  useEffect(() => {
+    vadRef.current?.updateOptions({
+      thresholdDb: voiceSettings.vadThresholdDb,
+      hangoverMs: voiceSettings.vadHangoverMs,
+    })
+  }, [voiceSettings.vadThresholdDb, voiceSettings.vadHangoverMs])
+
+  // Without barge-in the mic is muted while the assistant is speaking
+  useEffect(() => {
+    if (
+      !conversationState.isPlaying ||
+      voiceSettings.bargeInEnabled ||
+      !vadRef.current
+    ) {
+      return
+    }
+
+    vadRef.current.reset()
+    setAudioGate(false)
+    setConversationState((prev) => ({ ...prev, isUserSpeaking: false }))
+  }, [conversationState.isPlaying, voiceSettings.bargeInEnabled, setAudioGate])
+
+  // Reconnecting pauses while the browser is offline and resumes when it is back
+  useEffect(() => {
+    const handleOffline = () => {
+      const state = connectionStateRef.current
+      if (state.status !== "reconnecting" || state.isOffline) return
+
+      socketLog.info("Browser went offline, pausing reconnection")
+      if (reconnectTimeoutRef.current) {
+        clearTimeout(reconnectTimeoutRef.current)
+        reconnectTimeoutRef.current = null
+      }
+      updateConnectionState({ ...state, nextRetryAt: null, isOffline: true })
+    }
+
+    const handleOnline = () => {
+      const state = connectionStateRef.current
+      if (state.status !== "reconnecting" || !state.isOffline) return
+
+      socketLog.info("Browser is back online, reconnecting")
+      openConnection()
+    }
+
+    window.addEventListener("offline", handleOffline)
+    window.addEventListener("online", handleOnline)
+    return () => {
+      window.removeEventListener("offline", handleOffline)
+      window.removeEventListener("online", handleOnline)
+    }
+  }, [openConnection, updateConnectionState])
+
+  /**
+   * Current counters and buffer depths for the diagnostics overlay
+   */
+  const getDiagnostics = useCallback(
+    (): DiagnosticsSnapshot => ({
+      connectionState: connectionStateRef.current,
+      chatIds,
+      captureMode: activeCaptureMode,
+      traffic: { ...trafficStatsRef.current },
+      responseLatencyMs: responseLatencyRef.current,
+      lastInboundAt: livenessRef.current?.getLastInboundAt() ?? null,
+      audioInput: sendQueueRef.current?.getStats() ?? EMPTY_AUDIO_INPUT_STATS,
+      playbackBufferedSeconds: playerRef.current?.getBufferedSeconds() ?? 0,
+    }),
+    [chatIds, activeCaptureMode]
+  )
+
+  // Telemetry lives as long as the hook, pending events are sent on unmount
+  useEffect(() => {
+    const telemetry = createTelemetryClient()
+    telemetryRef.current = telemetry
+    return () => {
+      telemetryRef.current = null
+      telemetry.dispose()
+    }
+  }, [])
+
   // Cleanup on unmount
   useEffect(() => {
+    const levelStream = levelStreamRef.current
+    const clipStore = clipStoreRef.current
     return () => {
       cleanup()
+      traceReplayRef.current?.stop()
+      levelStream.dispose()
+      clipStore.clear()
     }
   }, [cleanup])
 
   return {
     conversationState,
     voiceSettings,
+    inputDevices,
+    outputDevices,
+    canSelectOutput,
     isConnected,
+    connectionState,
+    audioInputStats,
+    sessionMetrics,
+    activeCaptureMode,
+    humeConfig,
+    activeEviConfigId,
+    chatIds,
+    errors,
+    isTrafficRecording,
+    hasTrafficTrace,
+    traceReplayState,
+    sessions,
+    activeSessionId,
     connect,
     disconnect,
+    retryConnection,
+    dismissError,
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
+    beginPushToTalk,
+    endPushToTalk,
+    interruptAssistant,
+    subscribeAudioLevels,
+    startTrafficRecording,
+    stopTrafficRecording,
+    downloadTrafficTrace,
+    replayTrafficTrace,
+    stopTraceReplay,
+    getDiagnostics,
+    sendTextMessage,
+    registerTool,
     clearConversation,
     updateVoiceSettings,
+    updateHumeConfig,
+    selectEviConfig,
+    openSession,
+    importConversation,
+    continueSession,
+    renameSession,
+    deleteSession,
   }
 }
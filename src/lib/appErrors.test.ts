@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest"
+import { WebSocketErrorMessage } from "@/types/hume"
+import { AccessTokenError } from "./humeAuth"
+import { classifyError, classifyEviError } from "./appErrors"
+
+const eviError = (
+  code: string,
+  slug: string,
+  message: string
+): WebSocketErrorMessage => ({ type: "error", code, slug, message })
+
+describe("classifyEviError", () => {
+  it("maps known codes and slugs regardless of the wording", () => {
+    expect(
+      classifyEviError(eviError("E0300", "x", "Request denied"))
+    ).toMatchObject({ kind: "quota", code: "E0300", message: "Request denied" })
+    expect(
+      classifyEviError(eviError("E9999", "invalid_api_key", "Request denied"))
+    ).toMatchObject({
+      kind: "auth",
+      actions: ["check-api-key", "retry-connection"],
+    })
+  })
+
+  it("falls back to the message text for unknown codes", () => {
+    expect(
+      classifyEviError(eviError("E9999", "other", "Monthly quota exceeded"))
+        .kind
+    ).toBe("quota")
+    expect(
+      classifyEviError(
+        eviError("E0710", "config_not_found", "Config not found")
+      ).kind
+    ).toBe("server")
+  })
+})
+
+describe("classifyError for token broker failures", () => {
+  it("blames the keys only when the broker says so", () => {
+    expect(
+      classifyError(
+        new AccessTokenError("Server is missing", 500, "missing_keys")
+      )
+    ).toMatchObject({ kind: "auth", title: "Hume API keys are not configured" })
+    expect(
+      classifyError(new AccessTokenError("Hume rejected", 401, "rejected_keys"))
+        .kind
+    ).toBe("auth")
+  })
+
+  it("treats other broker failures as connection problems", () => {
+    expect(
+      classifyError(new AccessTokenError("Internal error", 500)).kind
+    ).toBe("network")
+    expect(
+      classifyError(
+        new AccessTokenError("Unavailable", 502, "token_unavailable")
+      ).kind
+    ).toBe("network")
+    expect(classifyError(new AccessTokenError("Slow down", 429)).kind).toBe(
+      "quota"
+    )
+  })
+})
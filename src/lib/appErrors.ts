@@ -0,0 +1,180 @@
+/**
+ * User-facing error model
+ * Failures from the token broker, the browser's media APIs and EVI are sorted into
+ * kinds, each with a title and the recovery actions that can fix it
+ */
+import {
+  AppError,
+  AppErrorKind,
+  RecoveryAction,
+  WebSocketErrorMessage,
+} from "@/types/hume"
+import { AccessTokenError } from "@/lib/humeAuth"
+import { describeClose } from "@/lib/connectionPolicy"
+import { isMissingDeviceError } from "@/lib/audio/audioDevices"
+
+export const HUME_API_KEYS_URL = "https://platform.hume.ai/settings/keys"
+
+const ERROR_KINDS: Record<
+  AppErrorKind,
+  { title: string; actions: RecoveryAction[] }
+> = {
+  auth: {
+    title: "Hume rejected the credentials",
+    actions: ["check-api-key", "retry-connection"],
+  },
+  quota: { title: "Hume usage limit reached", actions: ["retry-connection"] },
+  "mic-permission-denied": {
+    title: "Microphone access is blocked",
+    actions: ["grant-microphone"],
+  },
+  "device-not-found": {
+    title: "Audio device not available",
+    actions: ["choose-device"],
+  },
+  "unsupported-browser": {
+    title: "This browser is not supported",
+    actions: [],
+  },
+  network: { title: "Connection problem", actions: ["retry-connection"] },
+  server: { title: "EVI reported an error", actions: [] },
+  unknown: { title: "Something went wrong", actions: [] },
+}
+
+// EVI error codes and slugs for credential and usage problems
+const EVI_ERROR_KINDS = new Map<string, AppErrorKind>([
+  ["E0300", "quota"],
+  ["out_of_credits", "quota"],
+  ["rate_limit_exceeded", "quota"],
+  ["unauthorized", "auth"],
+  ["invalid_api_key", "auth"],
+])
+
+// Fallback for messages that come without a code, e.g. close reasons
+const AUTH_PATTERN =
+  /unauthori[sz]ed|forbidden|api[ _]key|secret[ _]key|access[ _]token|credential/i
+const QUOTA_PATTERN =
+  /quota|credits?\b|billing|usage limit|rate limit|too many|exceeded/i
+
+let errorCount = 0
+
+interface AppErrorOptions {
+  severity?: AppError["severity"]
+  title?: string
+  code?: string
+  actions?: RecoveryAction[]
+}
+
+/**
+ * Thrown when the browser lacks an API the app needs
+ */
+export class UnsupportedBrowserError extends Error {
+  constructor(missing: string) {
+    super(
+      `This browser does not support ${missing}. Use a current version of Chrome, Edge, Firefox or Safari.`
+    )
+    this.name = "UnsupportedBrowserError"
+  }
+}
+
+export const createAppError = (
+  kind: AppErrorKind,
+  message: string,
+  { severity = "error", title, code, actions }: AppErrorOptions = {}
+): AppError => ({
+  id: `error-${Date.now()}-${errorCount++}`,
+  kind,
+  severity,
+  title: title ?? ERROR_KINDS[kind].title,
+  message,
+  code,
+  actions: actions ?? ERROR_KINDS[kind].actions,
+  at: Date.now(),
+})
+
+const kindFromText = (text: string): AppErrorKind | null => {
+  if (AUTH_PATTERN.test(text)) return "auth"
+  if (QUOTA_PATTERN.test(text)) return "quota"
+  return null
+}
+
+/**
+ * Sort a thrown error into a kind
+ */
+export const classifyError = (error: unknown): AppError => {
+  const message = error instanceof Error ? error.message : String(error)
+
+  if (error instanceof UnsupportedBrowserError) {
+    return createAppError("unsupported-browser", message)
+  }
+
+  if (error instanceof AccessTokenError) {
+    // Only the broker's own code says whether the keys are at fault
+    if (error.code === "missing_keys") {
+      return createAppError("auth", message, {
+        title: "Hume API keys are not configured",
+      })
+    }
+    if (error.code === "rejected_keys") return createAppError("auth", message)
+    if (error.status === 429) return createAppError("quota", message)
+    return createAppError("network", message)
+  }
+
+  if (error instanceof DOMException) {
+    if (error.name === "NotAllowedError" || error.name === "SecurityError") {
+      return createAppError(
+        "mic-permission-denied",
+        "Allow microphone access for this site in the browser's site settings, then try again."
+      )
+    }
+    if (isMissingDeviceError(error)) {
+      return createAppError(
+        "device-not-found",
+        "No microphone was found. Plug one in or pick another in Settings."
+      )
+    }
+    if (error.name === "NotReadableError") {
+      return createAppError(
+        "device-not-found",
+        "The microphone could not be started, another application may be using it."
+      )
+    }
+  }
+
+  // fetch rejects with a TypeError when the network is down
+  if (error instanceof TypeError) {
+    return createAppError("network", message)
+  }
+
+  return createAppError(kindFromText(message) ?? "unknown", message)
+}
+
+/**
+ * Error for an EVI `error` message, keeping its code
+ * The code and slug decide the kind, the text only when neither is known
+ */
+export const classifyEviError = (message: WebSocketErrorMessage): AppError =>
+  createAppError(
+    EVI_ERROR_KINDS.get(message.code ?? "") ??
+      EVI_ERROR_KINDS.get(message.slug ?? "") ??
+      kindFromText(message.message) ??
+      "server",
+    message.message || "Unknown error",
+    { code: message.code }
+  )
+
+/**
+ * Error for a close that will not be retried
+ */
+export const classifyClose = (code: number, reason: string): AppError => {
+  const message = describeClose(code, reason)
+  const kind = kindFromText(message)
+
+  return kind
+    ? createAppError(kind, message, { code: String(code) })
+    : createAppError("server", message, {
+        title: "EVI closed the connection",
+        code: String(code),
+        actions: ["retry-connection"],
+      })
+}
@@ -0,0 +1,108 @@
+import { AudioLevelFrame, AudioLevelListener, AudioLevels } from "@/types/hume"
+
+// Levels at or below this read as an empty meter
+const METER_FLOOR_DB = -60
+
+export interface AudioAnalyser {
+  read: () => AudioLevels
+  disconnect: () => void
+}
+
+export interface AudioLevelStream {
+  subscribe: (listener: AudioLevelListener) => () => void
+  dispose: () => void
+}
+
+/**
+ * Tap an audio node or a microphone stream with an AnalyserNode
+ * The tap has no output, so it never changes what is heard or sent
+ */
+export const createAudioAnalyser = (
+  context: AudioContext,
+  input: AudioNode | MediaStream
+): AudioAnalyser => {
+  const ownsSource = input instanceof MediaStream
+  const source = ownsSource ? context.createMediaStreamSource(input) : input
+  const analyser = context.createAnalyser()
+  analyser.fftSize = 512
+  analyser.smoothingTimeConstant = 0.6
+  source.connect(analyser)
+
+  const levels: AudioLevels = {
+    db: -Infinity,
+    level: 0,
+    frequencies: new Uint8Array(analyser.frequencyBinCount),
+    waveform: new Float32Array(analyser.fftSize),
+  }
+
+  return {
+    read: () => {
+      analyser.getFloatTimeDomainData(levels.waveform)
+      analyser.getByteFrequencyData(levels.frequencies)
+
+      let sum = 0
+      for (let i = 0; i < levels.waveform.length; i++) {
+        sum += levels.waveform[i] * levels.waveform[i]
+      }
+      levels.db = 20 * Math.log10(Math.sqrt(sum / levels.waveform.length))
+      levels.level = Math.min(
+        1,
+        Math.max(0, (levels.db - METER_FLOOR_DB) / -METER_FLOOR_DB)
+      )
+      return levels
+    },
+    disconnect: () => {
+      if (ownsSource) {
+        source.disconnect()
+      } else {
+        source.disconnect(analyser)
+      }
+    },
+  }
+}
+
+/**
+ * Fan analyser readings out to subscribers once per animation frame
+ * Nothing is read while there are no subscribers
+ */
+export const createAudioLevelStream = (sources: {
+  getInput: () => AudioAnalyser | null
+  getOutput: () => AudioAnalyser | null
+}): AudioLevelStream => {
+  const listeners = new Set<AudioLevelListener>()
+  let frameId: number | null = null
+
+  const tick = () => {
+    const frame: AudioLevelFrame = {
+      input: sources.getInput()?.read() ?? null,
+      output: sources.getOutput()?.read() ?? null,
+    }
+    listeners.forEach((listener) => listener(frame))
+    frameId = requestAnimationFrame(tick)
+  }
+
+  const stop = () => {
+    if (frameId !== null) {
+      cancelAnimationFrame(frameId)
+      frameId = null
+    }
+  }
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener)
+      if (frameId === null) {
+        frameId = requestAnimationFrame(tick)
+      }
+
+      return () => {
+        listeners.delete(listener)
+        if (listeners.size === 0) stop()
+      }
+    },
+    dispose: () => {
+      listeners.clear()
+      stop()
+    },
+  }
+}
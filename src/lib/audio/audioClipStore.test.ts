@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  appendToPcmClip,
+  createAudioClipStore,
+  createPcmClip,
+} from "./audioClipStore"
+import { PcmFormat } from "./wav"
+
+const FORMAT: PcmFormat = {
+  sampleRate: 8000,
+  channels: 1,
+  bitsPerSample: 16,
+  audioFormat: 1,
+}
+
+// Stored clips are the samples plus a 44 byte WAV header
+const clipOf = (byteLength: number) => {
+  const clip = createPcmClip(FORMAT)
+  appendToPcmClip(clip, new Uint8Array(byteLength))
+  return clip
+}
+
+let urlCount = 0
+
+beforeEach(() => {
+  urlCount = 0
+  vi.spyOn(URL, "createObjectURL").mockImplementation(
+    () => `blob:clip-${urlCount++}`
+  )
+  vi.spyOn(URL, "revokeObjectURL").mockImplementation(() => {})
+})
+
+describe("createAudioClipStore", () => {
+  it("evicts the oldest clips past the byte budget", () => {
+    const onEvict = vi.fn()
+    const store = createAudioClipStore({ maxBytes: 300, onEvict })
+
+    store.add("a", clipOf(100))
+    store.add("b", clipOf(100))
+    expect(store.add("c", clipOf(100))).toEqual({
+      url: "blob:clip-2",
+      duration: 100 / (8000 * 2),
+    })
+
+    expect(onEvict).toHaveBeenCalledExactlyOnceWith("a")
+    expect(URL.revokeObjectURL).toHaveBeenCalledExactlyOnceWith("blob:clip-0")
+  })
+
+  it("replaces the clip of a message that is added again", () => {
+    const onEvict = vi.fn()
+    const store = createAudioClipStore({ maxBytes: 300, onEvict })
+
+    store.add("a", clipOf(100))
+    store.add("b", clipOf(100))
+    store.add("b", clipOf(100))
+    expect(URL.revokeObjectURL).toHaveBeenCalledExactlyOnceWith("blob:clip-1")
+
+    // The replaced clip no longer counts against the budget
+    store.setMaxBytes(288)
+    expect(onEvict).not.toHaveBeenCalled()
+    store.setMaxBytes(287)
+    expect(onEvict).toHaveBeenCalledExactlyOnceWith("a")
+  })
+
+  it("skips empty clips and clips larger than the budget", () => {
+    const store = createAudioClipStore({ maxBytes: 100, onEvict: vi.fn() })
+
+    expect(store.add("a", createPcmClip(FORMAT))).toBeNull()
+    expect(store.add("b", clipOf(100))).toBeNull()
+    expect(URL.createObjectURL).not.toHaveBeenCalled()
+  })
+})
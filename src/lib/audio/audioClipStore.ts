@@ -0,0 +1,110 @@
+/**
+ * In-memory audio for transcript replay
+ * Clips are object URLs keyed by message id, the oldest are evicted past a byte budget
+ */
+import { PcmFormat, encodeWav, getPcmDuration } from "./wav"
+
+export interface StoredAudioClip {
+  url: string
+  duration: number
+}
+
+export interface AudioClipStore {
+  add: (messageId: string, clip: PcmClip) => StoredAudioClip | null
+  setMaxBytes: (maxBytes: number) => void
+  clear: () => void
+}
+
+export interface PcmClip {
+  format: PcmFormat | null
+  chunks: Uint8Array[]
+  byteLength: number
+}
+
+/**
+ * Start an empty clip, the format is set by the first chunk that knows it
+ */
+export const createPcmClip = (format: PcmFormat | null = null): PcmClip => ({
+  format,
+  chunks: [],
+  byteLength: 0,
+})
+
+/**
+ * Append PCM to a clip, dropping its oldest audio beyond maxBytes
+ */
+export const appendToPcmClip = (
+  clip: PcmClip,
+  bytes: Uint8Array,
+  maxBytes = Infinity
+) => {
+  clip.chunks.push(bytes)
+  clip.byteLength += bytes.length
+
+  while (clip.byteLength > maxBytes && clip.chunks.length > 1) {
+    clip.byteLength -= clip.chunks.shift()!.length
+  }
+}
+
+/**
+ * Create a clip store, onEvict tells the owner which message lost its audio
+ */
+export const createAudioClipStore = ({
+  maxBytes,
+  onEvict,
+}: {
+  maxBytes: number
+  onEvict: (messageId: string) => void
+}): AudioClipStore => {
+  // Map iteration follows insertion order, so the first entry is the oldest
+  const clips = new Map<string, { url: string; bytes: number }>()
+  let budget = maxBytes
+  let totalBytes = 0
+
+  const evictOldest = () => {
+    const [messageId, clip] = clips.entries().next().value!
+    URL.revokeObjectURL(clip.url)
+    clips.delete(messageId)
+    totalBytes -= clip.bytes
+    onEvict(messageId)
+  }
+
+  const enforceBudget = () => {
+    while (totalBytes > budget && clips.size > 0) {
+      evictOldest()
+    }
+  }
+
+  return {
+    add: (messageId, clip) => {
+      if (!clip.format || clip.byteLength === 0) return null
+
+      const blob = encodeWav(clip.chunks, clip.format)
+      if (blob.size > budget) return null
+
+      // A message's clip is replaced, not stored twice
+      const previous = clips.get(messageId)
+      if (previous) {
+        URL.revokeObjectURL(previous.url)
+        clips.delete(messageId)
+        totalBytes -= previous.bytes
+      }
+
+      const url = URL.createObjectURL(blob)
+      clips.set(messageId, { url, bytes: blob.size })
+      totalBytes += blob.size
+      enforceBudget()
+
+      return { url, duration: getPcmDuration(clip.byteLength, clip.format) }
+    },
+    setMaxBytes: (maxBytes) => {
+      budget = maxBytes
+      enforceBudget()
+    },
+    clear: () => {
+      clips.forEach((clip) => URL.revokeObjectURL(clip.url))
+      clips.clear()
+      totalBytes = 0
+    },
+  }
+}
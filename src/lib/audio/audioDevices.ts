@@ -0,0 +1,65 @@
+/**
+ * Microphone and speaker selection helpers
+ */
+
+export interface AudioDeviceList {
+  inputs: MediaDeviceInfo[]
+  outputs: MediaDeviceInfo[]
+}
+
+// AudioContext.setSinkId is not in the TypeScript DOM lib yet
+type SinkableAudioContext = AudioContext & {
+  setSinkId?: (sinkId: string) => Promise<void>
+}
+
+// Chrome lists aliases for the system default alongside the real devices
+const ALIAS_DEVICE_IDS = new Set(["default", "communications"])
+
+/**
+ * List selectable audio inputs and outputs, without the default aliases
+ * Some browsers hide ids and labels until the page has microphone permission
+ */
+export const listAudioDevices = async (): Promise<AudioDeviceList> => {
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  const real = devices.filter(
+    (device) => device.deviceId && !ALIAS_DEVICE_IDS.has(device.deviceId)
+  )
+
+  return {
+    inputs: real.filter((device) => device.kind === "audioinput"),
+    outputs: real.filter((device) => device.kind === "audiooutput"),
+  }
+}
+
+/**
+ * Whether playback can be routed to a chosen output device
+ */
+export const supportsOutputSelection = (): boolean =>
+  typeof AudioContext !== "undefined" && "setSinkId" in AudioContext.prototype
+
+/**
+ * Route an audio context to an output device, null for the system default
+ */
+export const setOutputDevice = async (
+  context: AudioContext,
+  deviceId: string | null
+): Promise<void> => {
+  const sinkable = context as SinkableAudioContext
+  if (!sinkable.setSinkId) return
+
+  await sinkable.setSinkId(deviceId ?? "")
+}
+
+/**
+ * Whether getUserMedia failed because the requested device is gone
+ */
+export const isMissingDeviceError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === "NotFoundError" || error.name === "OverconstrainedError")
+
+/**
+ * Readable name for a device, numbered when the browser hides labels
+ */
+export const getDeviceLabel = (device: MediaDeviceInfo, index: number) =>
+  device.label ||
+  `${device.kind === "audioinput" ? "Microphone" : "Speaker"} ${index + 1}`
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createAudioSendQueue } from "./audioSendQueue"
+
+/**
+ * Socket whose buffer only drains when the test says so
+ */
+const createFakeSocket = () => {
+  const sent: string[] = []
+  const socket = {
+    readyState: WebSocket.OPEN as number,
+    bufferedAmount: 0,
+    send: (message: string) => {
+      const { data } = JSON.parse(message)
+      sent.push(data)
+      socket.bufferedAmount += data.length
+    },
+  }
+  return { socket, sent }
+}
+
+let fake: ReturnType<typeof createFakeSocket>
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  fake = createFakeSocket()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+const createQueue = (maxQueuedBytes: number, highWaterMark = 4) =>
+  createAudioSendQueue({
+    getSocket: () => fake.socket as unknown as WebSocket,
+    highWaterMark,
+    maxQueuedBytes,
+  })
+
+describe("createAudioSendQueue", () => {
+  it("sends in order and waits for the socket buffer to drain", () => {
+    const queue = createQueue(1000)
+
+    queue.enqueue("aaaa")
+    queue.enqueue("bbbb")
+    expect(fake.sent).toEqual(["aaaa"])
+    expect(queue.getStats()).toMatchObject({ queuedChunks: 1, queuedBytes: 4 })
+
+    fake.socket.bufferedAmount = 0
+    vi.advanceTimersByTime(20)
+    expect(fake.sent).toEqual(["aaaa", "bbbb"])
+    expect(queue.getStats()).toMatchObject({ sentChunks: 2, sentBytes: 8 })
+  })
+
+  it("sheds the oldest sheddable frames once the backlog is too large", () => {
+    const queue = createQueue(12)
+    queue.enqueue("sent")
+
+    queue.enqueue("pcm1", { sheddable: true })
+    queue.enqueue("webm", { sheddable: false })
+    queue.enqueue("pcm2", { sheddable: true })
+    expect(queue.getStats().droppedChunks).toBe(0)
+
+    // 16 queued bytes, the first PCM frame goes and the container chunk stays
+    queue.enqueue("pcm3", { sheddable: true })
+    expect(queue.getStats()).toMatchObject({
+      droppedChunks: 1,
+      queuedChunks: 3,
+      queuedBytes: 12,
+    })
+
+    for (let i = 0; i < 3; i++) {
+      fake.socket.bufferedAmount = 0
+      vi.advanceTimersByTime(20)
+    }
+    expect(fake.sent).toEqual(["sent", "webm", "pcm2", "pcm3"])
+  })
+
+  it("never sheds container chunks, even past the limit", () => {
+    const queue = createQueue(8)
+    queue.enqueue("sent")
+
+    queue.enqueue("web1")
+    queue.enqueue("web2")
+    queue.enqueue("web3")
+    expect(queue.getStats()).toMatchObject({
+      droppedChunks: 0,
+      queuedBytes: 12,
+    })
+
+    for (let i = 0; i < 3; i++) {
+      fake.socket.bufferedAmount = 0
+      vi.advanceTimersByTime(20)
+    }
+    expect(fake.sent).toEqual(["sent", "web1", "web2", "web3"])
+  })
+
+  it("holds audio while there is no open socket and drops it on reset", () => {
+    fake.socket.readyState = WebSocket.CONNECTING
+    const queue = createQueue(1000)
+
+    queue.enqueue("aaaa")
+    vi.advanceTimersByTime(100)
+    expect(fake.sent).toEqual([])
+
+    queue.reset()
+    fake.socket.readyState = WebSocket.OPEN
+    vi.advanceTimersByTime(100)
+    expect(fake.sent).toEqual([])
+    expect(queue.getStats()).toMatchObject({
+      droppedChunks: 1,
+      queuedChunks: 0,
+    })
+  })
+})
@@ -0,0 +1,173 @@
+import { AudioInputMessage, AudioInputStats } from "@/types/hume"
+import { createLogger } from "@/lib/logger"
+
+const log = createLogger("audio:capture")
+
+// Stop handing frames to the socket while this much is still unsent
+const DEFAULT_HIGH_WATER_MARK = 64 * 1024
+
+// Only sheddable frames are ever dropped, and only past this backlog
+const DEFAULT_MAX_QUEUED_BYTES = 2 * 1024 * 1024
+
+const RETRY_DELAY_MS = 20
+const STATS_INTERVAL_MS = 250
+
+export interface AudioSendQueueOptions {
+  getSocket: () => WebSocket | null
+  highWaterMark?: number
+  maxQueuedBytes?: number
+  onStatsChange?: (stats: AudioInputStats) => void
+}
+
+export interface EnqueueOptions {
+  // Self-contained frames (raw PCM) may be shed, container chunks never are
+  sheddable?: boolean
+}
+
+interface QueuedChunk {
+  data: string
+  sheddable: boolean
+}
+
+export interface AudioSendQueue {
+  enqueue: (base64Audio: string, options?: EnqueueOptions) => void
+  reset: () => void
+  getStats: () => AudioInputStats
+  dispose: () => void
+}
+
+export const EMPTY_AUDIO_INPUT_STATS: AudioInputStats = {
+  queuedChunks: 0,
+  queuedBytes: 0,
+  sentChunks: 0,
+  sentBytes: 0,
+  droppedChunks: 0,
+  bufferedAmount: 0,
+}
+
+/**
+ * Ordered outbound queue for audio_input messages
+ * Waits on WebSocket.bufferedAmount instead of throwing chunks away
+ */
+export const createAudioSendQueue = ({
+  getSocket,
+  highWaterMark = DEFAULT_HIGH_WATER_MARK,
+  maxQueuedBytes = DEFAULT_MAX_QUEUED_BYTES,
+  onStatsChange,
+}: AudioSendQueueOptions): AudioSendQueue => {
+  const queue: QueuedChunk[] = []
+  const stats: AudioInputStats = { ...EMPTY_AUDIO_INPUT_STATS }
+  let retryTimeout: ReturnType<typeof setTimeout> | null = null
+  let statsTimeout: ReturnType<typeof setTimeout> | null = null
+
+  const getStats = (): AudioInputStats => ({
+    ...stats,
+    bufferedAmount: getSocket()?.bufferedAmount ?? 0,
+  })
+
+  /**
+   * Report stats at most every STATS_INTERVAL_MS so audio does not drive renders
+   */
+  const scheduleStats = () => {
+    if (!onStatsChange || statsTimeout) return
+    statsTimeout = setTimeout(() => {
+      statsTimeout = null
+      onStatsChange(getStats())
+    }, STATS_INTERVAL_MS)
+  }
+
+  /**
+   * Shed the oldest whole sheddable frames until the backlog fits again
+   */
+  const shedOverflow = () => {
+    for (let i = 0; i < queue.length && stats.queuedBytes > maxQueuedBytes;) {
+      if (queue[i].sheddable) {
+        const [dropped] = queue.splice(i, 1)
+        stats.queuedBytes -= dropped.data.length
+        stats.droppedChunks += 1
+      } else {
+        i++
+      }
+    }
+    stats.queuedChunks = queue.length
+  }
+
+  const pump = () => {
+    retryTimeout = null
+    const socket = getSocket()
+
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      // Hold on to the audio, the caller decides when a queue is stale
+      if (queue.length > 0) {
+        retryTimeout = setTimeout(pump, RETRY_DELAY_MS)
+      }
+      return
+    }
+
+    while (queue.length > 0 && socket.bufferedAmount < highWaterMark) {
+      const chunk = queue[0]
+
+      try {
+        const message: AudioInputMessage = {
+          type: "audio_input",
+          data: chunk.data,
+        }
+        socket.send(JSON.stringify(message))
+      } catch (error) {
+        log.error("Failed to send audio input:", error)
+        break
+      }
+
+      queue.shift()
+      stats.queuedBytes -= chunk.data.length
+      stats.sentChunks += 1
+      stats.sentBytes += chunk.data.length
+    }
+
+    stats.queuedChunks = queue.length
+    scheduleStats()
+
+    if (queue.length > 0) {
+      retryTimeout = setTimeout(pump, RETRY_DELAY_MS)
+    }
+  }
+
+  const enqueue = (base64Audio: string, options: EnqueueOptions = {}) => {
+    queue.push({ data: base64Audio, sheddable: options.sheddable ?? false })
+    stats.queuedBytes += base64Audio.length
+    stats.queuedChunks = queue.length
+
+    if (stats.queuedBytes > maxQueuedBytes) {
+      shedOverflow()
+    }
+
+    if (!retryTimeout) {
+      pump()
+    }
+  }
+
+  /**
+   * Discard everything still queued, e.g. when the socket it was meant for is gone
+   */
+  const reset = () => {
+    if (retryTimeout) {
+      clearTimeout(retryTimeout)
+      retryTimeout = null
+    }
+    stats.droppedChunks += queue.length
+    queue.length = 0
+    stats.queuedBytes = 0
+    stats.queuedChunks = 0
+    scheduleStats()
+  }
+
+  const dispose = () => {
+    reset()
+    if (statsTimeout) {
+      clearTimeout(statsTimeout)
+      statsTimeout = null
+    }
+  }
+
+  return { enqueue, reset, getStats, dispose }
+}
@@ -0,0 +1,105 @@
+import { AudioConfig, CaptureMode } from "@/types/hume"
+import {
+  PCM_CAPTURE_PROCESSOR,
+  pcmCaptureWorkletSource,
+} from "./pcmCaptureWorklet"
+
+export const WEBM_OPUS_MIME_TYPE = "audio/webm;codecs=opus"
+
+// Matches the MediaRecorder timeslice so both modes send at the same cadence
+const FRAME_DURATION_MS = 100
+
+const registeredContexts = new WeakSet<BaseAudioContext>()
+
+export interface PcmCapture {
+  stop: () => void
+}
+
+/**
+ * Whether this browser can record webm/opus with MediaRecorder
+ */
+export const isWebmOpusSupported = (): boolean =>
+  typeof MediaRecorder !== "undefined" &&
+  MediaRecorder.isTypeSupported(WEBM_OPUS_MIME_TYPE)
+
+/**
+ * Pick the concrete capture mode, "auto" falls back to PCM where webm/opus is missing
+ */
+export const resolveCaptureMode = (
+  mode: CaptureMode
+): Exclude<CaptureMode, "auto"> => {
+  if (mode !== "auto") return mode
+  return isWebmOpusSupported() ? "webm" : "pcm"
+}
+
+/**
+ * Load the capture processor into a context once
+ */
+const registerWorklet = async (context: AudioContext) => {
+  if (registeredContexts.has(context)) return
+
+  const url = URL.createObjectURL(
+    new Blob([pcmCaptureWorkletSource], { type: "application/javascript" })
+  )
+  try {
+    await context.audioWorklet.addModule(url)
+    registeredContexts.add(context)
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+/**
+ * Capture a microphone stream as linear16 frames at the configured rate
+ */
+export const startPcmCapture = async (
+  context: AudioContext,
+  stream: MediaStream,
+  audioConfig: AudioConfig,
+  onFrame: (frame: ArrayBuffer) => void
+): Promise<PcmCapture> => {
+  if (!context.audioWorklet) {
+    throw new Error("AudioWorklet is not supported in this browser")
+  }
+
+  await registerWorklet(context)
+
+  const source = context.createMediaStreamSource(stream)
+  const node = new AudioWorkletNode(context, PCM_CAPTURE_PROCESSOR, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: audioConfig.channels,
+    processorOptions: {
+      targetSampleRate: audioConfig.sampleRate,
+      frameSamples: Math.round(
+        (audioConfig.sampleRate * FRAME_DURATION_MS) / 1000
+      ),
+    },
+  })
+
+  // Keep the node pulled by the graph without making the mic audible
+  const sink = context.createGain()
+  sink.gain.value = 0
+
+  node.port.onmessage = (event: MessageEvent<ArrayBuffer>) => {
+    onFrame(event.data)
+  }
+
+  source.connect(node)
+  node.connect(sink)
+  sink.connect(context.destination)
+
+  return {
+    stop: () => {
+      node.port.postMessage("flush")
+      // Let the flushed frame arrive before the port goes away
+      setTimeout(() => {
+        node.port.onmessage = null
+        node.port.close()
+      }, FRAME_DURATION_MS)
+      source.disconnect()
+      node.disconnect()
+      sink.disconnect()
+    },
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * AudioWorklet source for linear16 microphone capture
+ * Downmixes to mono, resamples to the target rate and posts fixed-size Int16 frames
+ */
+export const PCM_CAPTURE_PROCESSOR = "pcm-capture-processor"
+
+export const pcmCaptureWorkletSource = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super()
+    const { targetSampleRate, frameSamples } = options.processorOptions
+    this.ratio = sampleRate / targetSampleRate
+    this.frameSamples = frameSamples
+    this.frame = new Int16Array(frameSamples)
+    this.length = 0
+    this.position = 0
+    this.lastSample = 0
+
+    this.port.onmessage = (event) => {
+      if (event.data === "flush") {
+        this.postFrame()
+      }
+    }
+  }
+
+  postFrame() {
+    if (this.length === 0) return
+    const frame = this.frame.slice(0, this.length)
+    this.port.postMessage(frame.buffer, [frame.buffer])
+    this.length = 0
+  }
+
+  pushSample(value) {
+    const clamped = Math.max(-1, Math.min(1, value))
+    this.frame[this.length++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff
+    if (this.length === this.frameSamples) {
+      this.postFrame()
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0]
+    if (!input || input.length === 0 || input[0].length === 0) return true
+
+    const size = input[0].length
+    const samples = new Float32Array(size)
+    for (let c = 0; c < input.length; c++) {
+      for (let i = 0; i < size; i++) {
+        samples[i] += input[c][i] / input.length
+      }
+    }
+
+    // Linear interpolation, position may point just before this block
+    let position = this.position
+    while (position < size - 1) {
+      const index = Math.floor(position)
+      const fraction = position - index
+      const a = index < 0 ? this.lastSample : samples[index]
+      const b = samples[index + 1]
+      this.pushSample(a + (b - a) * fraction)
+      position += this.ratio
+    }
+
+    this.position = position - size
+    this.lastSample = samples[size - 1]
+    return true
+  }
+}
+
+registerProcessor("${PCM_CAPTURE_PROCESSOR}", PcmCaptureProcessor)
+`
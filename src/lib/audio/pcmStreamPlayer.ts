@@ -0,0 +1,146 @@
+import { PcmFormat, parseWavHeader, pcmToFloat32 } from "./wav"
+
+// Fallback when a stream starts with headerless PCM
+const DEFAULT_FORMAT: PcmFormat = {
+  sampleRate: 48000,
+  channels: 1,
+  bitsPerSample: 16,
+  audioFormat: 1,
+}
+
+// Scheduling headroom when playback (re)starts, absorbs network jitter
+const START_LEAD_SECONDS = 0.05
+
+export interface PcmStreamPlayerOptions {
+  onPlayingChange?: (isPlaying: boolean) => void
+}
+
+export interface PcmStreamPlayer {
+  // Seconds until the chunk is heard, null when it held no whole frame
+  enqueue: (bytes: Uint8Array) => number | null
+  flush: () => void
+  isPlaying: () => boolean
+  getBufferedSeconds: () => number
+  dispose: () => void
+}
+
+/**
+ * Gapless player for streamed WAV/PCM chunks on the Web Audio timeline
+ * Each chunk becomes an AudioBuffer scheduled right where the previous one ends
+ */
+export const createPcmStreamPlayer = (
+  context: AudioContext,
+  destination: AudioNode,
+  options: PcmStreamPlayerOptions = {}
+): PcmStreamPlayer => {
+  const activeSources = new Set<AudioBufferSourceNode>()
+  let format: PcmFormat | null = null
+  let remainder: Uint8Array | null = null
+  let nextStartTime = 0
+  let playing = false
+
+  const setPlaying = (value: boolean) => {
+    if (playing === value) return
+    playing = value
+    options.onPlayingChange?.(value)
+  }
+
+  /**
+   * Playback is over once the clock has passed the last scheduled end time
+   */
+  const handleSourceEnded = (source: AudioBufferSourceNode) => {
+    activeSources.delete(source)
+    source.disconnect()
+
+    if (
+      activeSources.size === 0 &&
+      context.currentTime >= nextStartTime - 0.01
+    ) {
+      setPlaying(false)
+    }
+  }
+
+  const enqueue = (chunk: Uint8Array): number | null => {
+    let pcm = chunk
+
+    // Read the header once per stream, later headers only give us the data offset
+    const header = parseWavHeader(chunk)
+    if (header) {
+      format ??= header.format
+      pcm = chunk.subarray(header.dataOffset)
+    }
+    format ??= DEFAULT_FORMAT
+
+    // Stitch a partial frame left over from the previous chunk
+    if (remainder) {
+      const joined = new Uint8Array(remainder.length + pcm.length)
+      joined.set(remainder)
+      joined.set(pcm, remainder.length)
+      pcm = joined
+      remainder = null
+    }
+
+    const frameSize = (format.bitsPerSample / 8) * format.channels
+    const usableLength = pcm.length - (pcm.length % frameSize)
+    if (usableLength < pcm.length) {
+      remainder = pcm.slice(usableLength)
+    }
+    if (usableLength === 0) return null
+
+    const channelData = pcmToFloat32(pcm.subarray(0, usableLength), format)
+    const buffer = context.createBuffer(
+      format.channels,
+      channelData[0].length,
+      format.sampleRate
+    )
+    channelData.forEach((data, channel) => buffer.copyToChannel(data, channel))
+
+    const source = context.createBufferSource()
+    source.buffer = buffer
+    source.connect(destination)
+    source.onended = () => handleSourceEnded(source)
+
+    const startTime = Math.max(
+      nextStartTime,
+      context.currentTime + START_LEAD_SECONDS
+    )
+    source.start(startTime)
+    nextStartTime = startTime + buffer.duration
+    activeSources.add(source)
+
+    setPlaying(true)
+    return startTime - context.currentTime
+  }
+
+  /**
+   * Stop everything immediately, used for interruptions
+   */
+  const flush = () => {
+    activeSources.forEach((source) => {
+      source.onended = null
+      try {
+        source.stop()
+      } catch {
+        // Source was never started or already stopped
+      }
+      source.disconnect()
+    })
+    activeSources.clear()
+
+    format = null
+    remainder = null
+    nextStartTime = 0
+    setPlaying(false)
+  }
+
+  const getBufferedSeconds = () =>
+    Math.max(0, nextStartTime - context.currentTime)
+
+  return {
+    enqueue,
+    flush,
+    isPlaying: () => playing,
+    getBufferedSeconds,
+    dispose: flush,
+  }
+}
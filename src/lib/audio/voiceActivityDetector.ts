@@ -0,0 +1,102 @@
+// How often the input level is sampled
+const POLL_INTERVAL_MS = 30
+
+export interface VoiceActivityOptions {
+  // Input level in dBFS above which a frame counts as speech
+  thresholdDb: number
+  // How long the level must stay below the threshold before speech ends
+  hangoverMs: number
+  // How long the level must stay above the threshold before speech starts
+  attackMs: number
+}
+
+export interface VoiceActivityCallbacks {
+  onSpeechStart: () => void
+  onSpeechEnd: () => void
+}
+
+export interface VoiceActivityDetector {
+  updateOptions: (options: Partial<VoiceActivityOptions>) => void
+  isSpeaking: () => boolean
+  reset: () => void
+  stop: () => void
+}
+
+/**
+ * Energy based voice activity detection on a microphone stream
+ * Reads RMS level from an AnalyserNode, with attack and hangover smoothing
+ */
+export const createVoiceActivityDetector = (
+  context: AudioContext,
+  stream: MediaStream,
+  initialOptions: VoiceActivityOptions,
+  callbacks: VoiceActivityCallbacks
+): VoiceActivityDetector => {
+  let options = { ...initialOptions }
+  let speaking = false
+  let aboveSince: number | null = null
+  let belowSince: number | null = null
+
+  const source = context.createMediaStreamSource(stream)
+  const analyser = context.createAnalyser()
+  analyser.fftSize = 1024
+  source.connect(analyser)
+
+  const samples = new Float32Array(analyser.fftSize)
+
+  const readLevelDb = () => {
+    analyser.getFloatTimeDomainData(samples)
+    let sum = 0
+    for (let i = 0; i < samples.length; i++) {
+      sum += samples[i] * samples[i]
+    }
+    const rms = Math.sqrt(sum / samples.length)
+    return 20 * Math.log10(Math.max(rms, 1e-8))
+  }
+
+  const interval = setInterval(() => {
+    const now = performance.now()
+
+    if (readLevelDb() >= options.thresholdDb) {
+      belowSince = null
+      aboveSince ??= now
+      if (!speaking && now - aboveSince >= options.attackMs) {
+        speaking = true
+        callbacks.onSpeechStart()
+      }
+    } else {
+      aboveSince = null
+      if (speaking) {
+        belowSince ??= now
+        if (now - belowSince >= options.hangoverMs) {
+          speaking = false
+          belowSince = null
+          callbacks.onSpeechEnd()
+        }
+      }
+    }
+  }, POLL_INTERVAL_MS)
+
+  /**
+   * Forget the current state without firing callbacks
+   */
+  const reset = () => {
+    speaking = false
+    aboveSince = null
+    belowSince = null
+  }
+
+  return {
+    updateOptions: (next) => {
+      options = { ...options, ...next }
+    },
+    isSpeaking: () => speaking,
+    reset,
+    stop: () => {
+      clearInterval(interval)
+      reset()
+      source.disconnect()
+      analyser.disconnect()
+    },
+  }
+}
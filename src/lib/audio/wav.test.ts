@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest"
+import {
+  PcmFormat,
+  base64ToBytes,
+  bytesToBase64,
+  encodeWav,
+  getPcmDuration,
+  parseWavHeader,
+  pcmToFloat32,
+} from "./wav"
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer())
+
+const STEREO_16: PcmFormat = {
+  sampleRate: 48000,
+  channels: 2,
+  bitsPerSample: 16,
+  audioFormat: 1,
+}
+
+describe("encodeWav", () => {
+  it("writes a header that parseWavHeader reads back", async () => {
+    const bytes = await bytesOf(
+      encodeWav(
+        [new Uint8Array([1, 2, 3, 4]), new Uint8Array([5, 6])],
+        STEREO_16
+      )
+    )
+    const view = new DataView(bytes.buffer)
+
+    expect(bytes).toHaveLength(44 + 6)
+    expect(view.getUint32(4, true)).toBe(36 + 6)
+    // Byte rate and block align follow from the format
+    expect(view.getUint32(28, true)).toBe(48000 * 4)
+    expect(view.getUint16(32, true)).toBe(4)
+    expect(view.getUint32(40, true)).toBe(6)
+
+    expect(parseWavHeader(bytes)).toEqual({ format: STEREO_16, dataOffset: 44 })
+    expect([...bytes.subarray(44)]).toEqual([1, 2, 3, 4, 5, 6])
+  })
+})
+
+describe("parseWavHeader", () => {
+  it("skips chunks before the data chunk, including their padding", async () => {
+    const wav = await bytesOf(encodeWav([new Uint8Array(2)], STEREO_16))
+    // A LIST chunk of odd size 3 between fmt and data, so a pad byte follows
+    const list = new TextEncoder().encode("LIST\x03\x00\x00\x00abc\x00")
+    const bytes = new Uint8Array([
+      ...wav.subarray(0, 36),
+      ...list,
+      ...wav.subarray(36),
+    ])
+
+    expect(parseWavHeader(bytes)).toEqual({
+      format: STEREO_16,
+      dataOffset: 44 + list.length,
+    })
+  })
+
+  it("returns null without a complete header", async () => {
+    const wav = await bytesOf(encodeWav([], STEREO_16))
+
+    expect(parseWavHeader(new Uint8Array([1, 2, 3]))).toBeNull()
+    expect(parseWavHeader(wav.subarray(0, 30))).toBeNull()
+  })
+})
+
+describe("PCM helpers", () => {
+  it("computes the playback length of PCM bytes", () => {
+    expect(getPcmDuration(48000 * 4, STEREO_16)).toBe(1)
+    expect(
+      getPcmDuration(8000, { ...STEREO_16, sampleRate: 16000, channels: 1 })
+    ).toBe(0.25)
+  })
+
+  it("splits interleaved 16-bit samples into channels", () => {
+    const bytes = new Uint8Array(
+      new Int16Array([16384, -32768, 0, 32767]).buffer
+    )
+    const [left, right] = pcmToFloat32(bytes, STEREO_16)
+
+    expect([...left]).toEqual([0.5, 0])
+    expect([...right]).toEqual([-1, 32767 / 32768])
+  })
+
+  it("round-trips bytes through base64", () => {
+    const bytes = new Uint8Array([0, 127, 128, 255])
+
+    expect(bytesToBase64(bytes.buffer)).toBe("AH+A/w==")
+    expect([...base64ToBytes("AH+A/w==")]).toEqual([...bytes])
+  })
+})
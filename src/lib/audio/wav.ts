@@ -0,0 +1,166 @@
+/**
+ * Minimal WAV (RIFF) helpers for EVI audio_output chunks
+ */
+
+export interface PcmFormat {
+  sampleRate: number
+  channels: number
+  bitsPerSample: number
+  // 1 = integer PCM, 3 = IEEE float
+  audioFormat: number
+}
+
+export interface WavHeader {
+  format: PcmFormat
+  dataOffset: number
+}
+
+const readTag = (view: DataView, offset: number): string =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  )
+
+/**
+ * Check whether a chunk starts with a RIFF/WAVE header
+ */
+export const hasWavHeader = (bytes: Uint8Array): boolean => {
+  if (bytes.length < 12) return false
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  return readTag(view, 0) === "RIFF" && readTag(view, 8) === "WAVE"
+}
+
+/**
+ * Parse the fmt chunk and locate the data chunk of a WAV file
+ * Returns null when the header is missing or incomplete
+ */
+export const parseWavHeader = (bytes: Uint8Array): WavHeader | null => {
+  if (!hasWavHeader(bytes)) return null
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let format: PcmFormat | null = null
+  let offset = 12
+
+  while (offset + 8 <= bytes.length) {
+    const tag = readTag(view, offset)
+    const size = view.getUint32(offset + 4, true)
+    const body = offset + 8
+
+    if (tag === "fmt " && body + 16 <= bytes.length) {
+      format = {
+        audioFormat: view.getUint16(body, true),
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      }
+    } else if (tag === "data") {
+      return format ? { format, dataOffset: body } : null
+    }
+
+    // Chunks are padded to an even number of bytes
+    offset = body + size + (size % 2)
+  }
+
+  return null
+}
+
+/**
+ * Convert interleaved PCM samples into one Float32Array per channel
+ */
+export const pcmToFloat32 = (
+  bytes: Uint8Array,
+  format: PcmFormat
+): Float32Array[] => {
+  const bytesPerSample = format.bitsPerSample / 8
+  const frameCount = Math.floor(
+    bytes.length / (bytesPerSample * format.channels)
+  )
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const channels = Array.from(
+    { length: format.channels },
+    () => new Float32Array(frameCount)
+  )
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let channel = 0; channel < format.channels; channel++) {
+      const offset = (frame * format.channels + channel) * bytesPerSample
+
+      if (format.audioFormat === 3 && format.bitsPerSample === 32) {
+        channels[channel][frame] = view.getFloat32(offset, true)
+      } else if (format.bitsPerSample === 16) {
+        channels[channel][frame] = view.getInt16(offset, true) / 32768
+      } else if (format.bitsPerSample === 8) {
+        channels[channel][frame] = (view.getUint8(offset) - 128) / 128
+      } else if (format.bitsPerSample === 32) {
+        channels[channel][frame] = view.getInt32(offset, true) / 2147483648
+      }
+    }
+  }
+
+  return channels
+}
+
+/**
+ * Decode a base64 string into raw bytes
+ */
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binaryString = atob(base64)
+  const bytes = new Uint8Array(binaryString.length)
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Encode raw bytes as base64
+ */
+export const bytesToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer)
+  let binaryString = ""
+  for (let i = 0; i < bytes.length; i++) {
+    binaryString += String.fromCharCode(bytes[i])
+  }
+  return btoa(binaryString)
+}
+
+/**
+ * Wrap raw PCM chunks in a RIFF/WAVE header
+ */
+export const encodeWav = (chunks: Uint8Array[], format: PcmFormat): Blob => {
+  const dataLength = chunks.reduce((total, chunk) => total + chunk.length, 0)
+  const blockAlign = format.channels * (format.bitsPerSample / 8)
+  const header = new ArrayBuffer(44)
+  const view = new DataView(header)
+
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) {
+      view.setUint8(offset + i, tag.charCodeAt(i))
+    }
+  }
+
+  writeTag(0, "RIFF")
+  view.setUint32(4, 36 + dataLength, true)
+  writeTag(8, "WAVE")
+  writeTag(12, "fmt ")
+  view.setUint32(16, 16, true)
+  view.setUint16(20, format.audioFormat, true)
+  view.setUint16(22, format.channels, true)
+  view.setUint32(24, format.sampleRate, true)
+  view.setUint32(28, format.sampleRate * blockAlign, true)
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, format.bitsPerSample, true)
+  writeTag(36, "data")
+  view.setUint32(40, dataLength, true)
+
+  return new Blob([header, ...chunks], { type: "audio/wav" })
+}
+
+/**
+ * Playback length in seconds of a number of PCM bytes
+ */
+export const getPcmDuration = (byteLength: number, format: PcmFormat): number =>
+  byteLength /
+  (format.sampleRate * format.channels * (format.bitsPerSample / 8))
@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  FakeAudioContext,
+  FakeMediaEnvironment,
+  FakeMediaStream,
+  installFakeMedia,
+} from "@/test/fakeMedia"
+import { startWebmCapture } from "./webmCapture"
+
+let media: FakeMediaEnvironment
+
+/**
+ * Start a capture on a fake context, exposing the gate it routes audio through
+ */
+const startOnFakeContext = () => {
+  const context = new FakeAudioContext()
+  const createGain = vi.spyOn(context, "createGain")
+  const chunks: Blob[] = []
+  const capture = startWebmCapture(
+    context as unknown as AudioContext,
+    (chunk) => chunks.push(chunk)
+  )
+  const gate = createGain.mock.results[0].value
+  return { context, capture, gate, chunks, recorder: media.recorders[0] }
+}
+
+beforeEach(() => {
+  media = installFakeMedia()
+})
+
+describe("startWebmCapture", () => {
+  it("records from the start and drops chunks once stopped", () => {
+    const { capture, chunks, recorder } = startOnFakeContext()
+    expect(recorder.state).toBe("recording")
+
+    recorder.emitData(new Blob(["silence"]))
+    capture.setInput(new FakeMediaStream() as unknown as MediaStream)
+    recorder.emitData(new Blob(["speech"]))
+    capture.stop()
+    recorder.emitData(new Blob(["late"]))
+
+    expect(recorder.state).toBe("inactive")
+    expect(chunks).toHaveLength(2)
+  })
+
+  it("opens the gate at once but closes it after the pre-roll plays out", () => {
+    const { context, capture, gate } = startOnFakeContext()
+    context.currentTime = 2
+    capture.setPreRoll(0.3)
+
+    capture.setOpen(false)
+    expect(gate.gain.value).toBe(0)
+    expect(gate.gain.scheduledAt).toBeCloseTo(2.3)
+
+    capture.setOpen(true)
+    expect(gate.gain.value).toBe(1)
+    expect(gate.gain.scheduledAt).toBe(2)
+  })
+})
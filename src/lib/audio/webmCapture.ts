@@ -0,0 +1,77 @@
+import { WEBM_OPUS_MIME_TYPE } from "./pcmCapture"
+
+// 100ms chunks, the send queue handles backpressure
+const CHUNK_DURATION_MS = 100
+
+// Upper bound for setPreRoll
+const MAX_PRE_ROLL_SECONDS = 1
+
+export interface WebmCapture {
+  // Route a microphone into the container, null leaves only silence
+  setInput: (stream: MediaStream | null) => void
+  // Closed sends silence in place of the microphone
+  setOpen: (open: boolean) => void
+  // Run the microphone this far behind the gate, so opening it keeps the onset
+  setPreRoll: (seconds: number) => void
+  stop: () => void
+}
+
+/**
+ * Record one continuous webm/opus container for a connection
+ * The recorder runs on a Web Audio destination rather than the microphone, so it
+ * starts with the socket and streams silence while the mic is closed or gated.
+ * That steady audio is the keep-alive for webm links, EVI has no other frame to ping with
+ */
+export const startWebmCapture = (
+  context: AudioContext,
+  onChunk: (chunk: Blob) => void
+): WebmCapture => {
+  const delay = context.createDelay(MAX_PRE_ROLL_SECONDS)
+  const gate = context.createGain()
+  const destination = context.createMediaStreamDestination()
+  delay.connect(gate)
+  gate.connect(destination)
+
+  let source: MediaStreamAudioSourceNode | null = null
+  let stopped = false
+
+  const recorder = new MediaRecorder(destination.stream, {
+    mimeType: WEBM_OPUS_MIME_TYPE,
+    audioBitsPerSecond: 64000, // Optimize bitrate to reduce clipping
+  })
+  recorder.ondataavailable = (event) => {
+    if (stopped || event.data.size === 0) return
+    onChunk(event.data)
+  }
+  recorder.start(CHUNK_DURATION_MS)
+
+  return {
+    setInput: (stream) => {
+      source?.disconnect()
+      source = stream ? context.createMediaStreamSource(stream) : null
+      source?.connect(delay)
+    },
+    setOpen: (open) => {
+      // Audio still in the delay line when the gate closes was heard while open
+      const now = context.currentTime
+      gate.gain.cancelScheduledValues(now)
+      gate.gain.setValueAtTime(
+        open ? 1 : 0,
+        open ? now : now + delay.delayTime.value
+      )
+    },
+    setPreRoll: (seconds) => {
+      delay.delayTime.value = Math.min(seconds, MAX_PRE_ROLL_SECONDS)
+    },
+    stop: () => {
+      if (stopped) return
+      stopped = true
+      if (recorder.state !== "inactive") {
+        recorder.stop()
+      }
+      source?.disconnect()
+      delay.disconnect()
+      gate.disconnect()
+    },
+  }
+}
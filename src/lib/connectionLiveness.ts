@@ -0,0 +1,135 @@
+/**
+ * Liveness checks for the EVI WebSocket
+ * Browsers expose no WebSocket ping, so a dead link only shows up as silence or
+ * outbound bytes that never drain
+ */
+
+// How often the link is checked
+const CHECK_INTERVAL_MS = 5000
+
+// Send a keep-alive when nothing else went out for this long
+export const KEEP_ALIVE_INTERVAL_MS = 15_000
+
+// Silence allowed while a reply is expected before the link counts as dead
+const REPLY_TIMEOUT_MS = 30_000
+
+// Outbound bytes stuck in the socket buffer this long mean the link is gone
+const STALLED_SEND_MS = 20_000
+
+// A gap between checks this large means the machine was asleep or the tab frozen
+const SLEEP_GAP_MS = 120_000
+
+export interface LivenessMonitorOptions {
+  // Without one the monitor only watches, it never sends
+  sendKeepAlive?: () => void
+  onDead: (reason: string) => void
+}
+
+export interface LivenessMonitor {
+  noteInbound: () => void
+  noteOutbound: () => void
+  setAwaitingReply: (awaiting: boolean) => void
+  getLastInboundAt: () => number
+  dispose: () => void
+}
+
+/**
+ * Watch an open socket and report when it has silently stopped working
+ */
+export const createLivenessMonitor = (
+  socket: WebSocket,
+  { sendKeepAlive, onDead }: LivenessMonitorOptions
+): LivenessMonitor => {
+  let lastInboundAt = Date.now()
+  let lastOutboundAt = Date.now()
+  let lastCheckAt = Date.now()
+  let awaitingReplySince: number | null = null
+  let stalledSince: number | null = null
+  let disposed = false
+
+  const dispose = () => {
+    if (disposed) return
+    disposed = true
+    clearInterval(interval)
+    document.removeEventListener("visibilitychange", handleVisibilityChange)
+    window.removeEventListener("online", check)
+  }
+
+  const declareDead = (reason: string) => {
+    dispose()
+    onDead(reason)
+  }
+
+  const check = () => {
+    if (disposed) return
+
+    const now = Date.now()
+    const sinceLastCheck = now - lastCheckAt
+    lastCheckAt = now
+
+    // Timers do not run while asleep, the socket may still claim to be open
+    if (sinceLastCheck > SLEEP_GAP_MS) {
+      declareDead(
+        `No checks ran for ${Math.round(sinceLastCheck / 1000)}s, probably after sleep`
+      )
+      return
+    }
+
+    // Closing sockets are handled by their close event
+    if (socket.readyState !== WebSocket.OPEN) return
+
+    if (
+      awaitingReplySince !== null &&
+      now - Math.max(lastInboundAt, awaitingReplySince) > REPLY_TIMEOUT_MS
+    ) {
+      declareDead(
+        `No reply from EVI for ${Math.round(REPLY_TIMEOUT_MS / 1000)}s`
+      )
+      return
+    }
+
+    if (socket.bufferedAmount > 0) {
+      stalledSince ??= now
+      if (now - stalledSince > STALLED_SEND_MS) {
+        declareDead("Outbound data stopped draining")
+        return
+      }
+    } else {
+      stalledSince = null
+    }
+
+    if (sendKeepAlive && now - lastOutboundAt >= KEEP_ALIVE_INTERVAL_MS) {
+      sendKeepAlive()
+      lastOutboundAt = now
+    }
+  }
+
+  // Background tabs throttle timers, check as soon as the tab is visible again
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "visible") {
+      check()
+    }
+  }
+
+  const interval = setInterval(check, CHECK_INTERVAL_MS)
+  document.addEventListener("visibilitychange", handleVisibilityChange)
+  window.addEventListener("online", check)
+
+  return {
+    noteInbound: () => {
+      lastInboundAt = Date.now()
+    },
+    noteOutbound: () => {
+      lastOutboundAt = Date.now()
+    },
+    setAwaitingReply: (awaiting) => {
+      if (!awaiting) {
+        awaitingReplySince = null
+      } else {
+        awaitingReplySince ??= Date.now()
+      }
+    },
+    getLastInboundAt: () => lastInboundAt,
+    dispose,
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Reconnection policy for the EVI WebSocket
+ * Decides which failures are worth retrying and how long to wait between attempts
+ */
+import { AccessTokenError } from "@/lib/humeAuth"
+
+export const MAX_RECONNECT_ATTEMPTS = 8
+
+const BASE_RECONNECT_DELAY_MS = 1000
+const MAX_RECONNECT_DELAY_MS = 30_000
+
+// A connection that stayed open this long resets the backoff schedule
+export const STABLE_CONNECTION_MS = 30_000
+
+export type CloseDisposition = "normal" | "retryable" | "fatal"
+
+// Close codes that mean the server will refuse us again
+const FATAL_CLOSE_CODES: Record<number, string> = {
+  1002: "Protocol error",
+  1003: "Unsupported data",
+  1007: "Invalid message payload",
+  1008: "Policy violation, check the API key and config",
+  1009: "Message too big",
+  1010: "Required extension missing",
+  1015: "TLS handshake failed",
+}
+
+/**
+ * Delay before a reconnect attempt, exponential with equal jitter
+ * Attempts are numbered from 1
+ */
+export const getReconnectDelay = (attempt: number): number => {
+  const ceiling = Math.min(
+    MAX_RECONNECT_DELAY_MS,
+    BASE_RECONNECT_DELAY_MS * 2 ** (attempt - 1)
+  )
+  return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2)
+}
+
+/**
+ * Classify a WebSocket close code
+ * Application codes (4000-4999) are rejections of the session itself
+ */
+export const classifyCloseCode = (code: number): CloseDisposition => {
+  if (code === 1000) return "normal"
+  if (code in FATAL_CLOSE_CODES) return "fatal"
+  if (code >= 4000 && code < 5000) return "fatal"
+  return "retryable"
+}
+
+/**
+ * Human readable reason for a close that will not be retried
+ */
+export const describeClose = (code: number, reason: string): string =>
+  reason || FATAL_CLOSE_CODES[code] || `Connection closed with code ${code}`
+
+/**
+ * Whether a failure before the socket exists is worth retrying
+ * Token broker rejections below 502 are configuration problems
+ */
+export const isRetryableConnectError = (error: unknown): boolean =>
+  !(error instanceof AccessTokenError && error.status < 502)
@@ -0,0 +1,116 @@
+import { ConversationSession, ConversationSessionSummary } from "@/types/hume"
+
+/**
+ * IndexedDB persistence for conversation sessions
+ * Sessions are indexed by EVI chat_id and chat_group_id for later lookup
+ */
+
+const DB_NAME = "freja-ai-voice"
+const DB_VERSION = 1
+const SESSION_STORE = "sessions"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+/**
+ * Open the database once and reuse the connection
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const store = db.createObjectStore(SESSION_STORE, { keyPath: "id" })
+          store.createIndex("chatId", "chatId")
+          store.createIndex("chatGroupId", "chatGroupId")
+          store.createIndex("updatedAt", "updatedAt")
+        }
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+
+  return dbPromise
+}
+
+const getStore = async (mode: IDBTransactionMode) => {
+  const db = await openDatabase()
+  return db.transaction(SESSION_STORE, mode).objectStore(SESSION_STORE)
+}
+
+/**
+ * Object URLs only live as long as the page, so they are never persisted
+ */
+const toStoredSession = (
+  session: ConversationSession
+): ConversationSession => ({
+  ...session,
+  messages: session.messages.map((message) => ({
+    ...message,
+    audioUrl: undefined,
+  })),
+})
+
+/**
+ * List sessions, most recently updated first
+ */
+export const listSessions = async (): Promise<ConversationSessionSummary[]> => {
+  const store = await getStore("readonly")
+  const sessions = await promisifyRequest<ConversationSession[]>(store.getAll())
+
+  return sessions
+    .map(({ messages, ...session }) => ({
+      ...session,
+      messageCount: messages.length,
+    }))
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+}
+
+export const getSession = async (
+  id: string
+): Promise<ConversationSession | undefined> => {
+  const store = await getStore("readonly")
+  return promisifyRequest<ConversationSession | undefined>(store.get(id))
+}
+
+export const saveSession = async (session: ConversationSession) => {
+  const store = await getStore("readwrite")
+  await promisifyRequest(store.put(toStoredSession(session)))
+}
+
+export const renameSession = async (id: string, title: string) => {
+  const store = await getStore("readwrite")
+  const session = await promisifyRequest<ConversationSession | undefined>(
+    store.get(id)
+  )
+  if (!session) {
+    throw new Error(`Session ${id} not found`)
+  }
+
+  await promisifyRequest(store.put({ ...session, title }))
+}
+
+export const deleteSession = async (id: string) => {
+  const store = await getStore("readwrite")
+  await promisifyRequest(store.delete(id))
+}
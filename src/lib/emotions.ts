@@ -0,0 +1,63 @@
+import { EmotionScore, EmotionScores, VoiceMessage } from "@/types/hume"
+
+export interface EmotionTimelineTurn {
+  messageId: string
+  type: VoiceMessage["type"]
+  timestamp: Date
+  scores: Record<string, number>
+}
+
+export interface EmotionTimeline {
+  emotions: string[]
+  turns: EmotionTimelineTurn[]
+}
+
+/**
+ * Turn EVI's name→score prosody map into scores sorted from strongest to weakest
+ */
+export const normalizeProsody = (scores?: EmotionScores): EmotionScore[] =>
+  Object.entries(scores ?? {})
+    .filter(([, score]) => Number.isFinite(score))
+    .map(([name, score]) => ({ name, score }))
+    .sort((a, b) => b.score - a.score)
+
+/**
+ * Collect per-turn scores for the emotions that dominate the conversation
+ * Emotions are ranked by their average score over all turns with prosody
+ */
+export const buildEmotionTimeline = (
+  messages: VoiceMessage[],
+  topCount = 5
+): EmotionTimeline => {
+  const turns = messages.filter(
+    (message) => message.emotions && message.emotions.length > 0
+  )
+  const totals = new Map<string, number>()
+
+  turns.forEach((message) => {
+    message.emotions?.forEach(({ name, score }) => {
+      totals.set(name, (totals.get(name) ?? 0) + score)
+    })
+  })
+
+  const emotions = Array.from(totals.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, topCount)
+    .map(([name]) => name)
+
+  return {
+    emotions,
+    turns: turns.map((message) => ({
+      messageId: message.id,
+      type: message.type,
+      timestamp: message.timestamp,
+      scores: Object.fromEntries(
+        emotions.map((name) => [
+          name,
+          message.emotions?.find((emotion) => emotion.name === name)?.score ??
+            0,
+        ])
+      ),
+    })),
+  }
+}
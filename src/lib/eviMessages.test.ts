@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest"
+import { EviMessageParseError, parseEviMessage } from "./eviMessages"
+
+describe("parseEviMessage", () => {
+  it("returns a validated message of a handled type", () => {
+    const frame = { type: "chat_metadata", chat_id: "c", chat_group_id: "g" }
+    expect(parseEviMessage(JSON.stringify(frame))).toEqual(frame)
+  })
+
+  it("accepts frames that leave out optional fields", () => {
+    const frame = {
+      type: "tool_call",
+      name: "get_weather",
+      parameters: "{}",
+      tool_call_id: "call-1",
+    }
+    const message = parseEviMessage(JSON.stringify(frame))
+
+    expect(message).toEqual(frame)
+    expect(message.type === "tool_call" && message.response_required).toBe(
+      undefined
+    )
+  })
+
+  it("passes types the client does not handle through as unknown", () => {
+    const frame = { type: "assistant_prosody", id: "a1", models: {} }
+    expect(parseEviMessage(JSON.stringify(frame))).toEqual({
+      type: "unknown",
+      originalType: "assistant_prosody",
+      raw: frame,
+    })
+  })
+
+  it("rejects frames that are not well-formed", () => {
+    expect(() => parseEviMessage(new ArrayBuffer(4))).toThrow(
+      EviMessageParseError
+    )
+    expect(() => parseEviMessage("{")).toThrow(/not valid JSON/)
+    expect(() => parseEviMessage('{"kind":"error"}')).toThrow(/"type" field/)
+    expect(() =>
+      parseEviMessage(JSON.stringify({ type: "audio_output", data: 3 }))
+    ).toThrow('field "data" should be a string, got number')
+  })
+})
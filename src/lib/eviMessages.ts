@@ -0,0 +1,199 @@
+import { EviInboundMessage, UnknownEviMessage } from "@/types/hume"
+
+type Frame = Record<string, unknown>
+type FieldKind = "string" | "number" | "boolean" | "object"
+
+/**
+ * Raised when an inbound frame is not a well-formed EVI message
+ */
+export class EviMessageParseError extends Error {
+  readonly raw: unknown
+
+  constructor(message: string, raw: unknown) {
+    super(message)
+    this.name = "EviMessageParseError"
+    this.raw = raw
+  }
+}
+
+const isObject = (value: unknown): value is Frame =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const kindOf = (value: unknown): string =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value
+
+/**
+ * Check a single field, with a dotted path in the error for nested fields
+ */
+const expectField = (
+  frame: Frame,
+  key: string,
+  kind: FieldKind,
+  optional = false,
+  path = key
+) => {
+  const value = frame[key]
+  if (value === undefined && optional) return
+
+  const matches = kind === "object" ? isObject(value) : typeof value === kind
+  if (!matches) {
+    throw new Error(
+      `field "${path}" should be ${
+        optional ? `an optional ${kind}` : `a ${kind}`
+      }, got ${kindOf(value)}`
+    )
+  }
+}
+
+const expectChatMessage = (frame: Frame) => {
+  expectField(frame, "message", "object")
+  const message = frame.message as Frame
+  expectField(message, "role", "string", false, "message.role")
+  expectField(message, "content", "string", true, "message.content")
+}
+
+const expectInference = (frame: Frame) => {
+  expectField(frame, "models", "object")
+  const models = frame.models as Frame
+  expectField(models, "prosody", "object", true, "models.prosody")
+  if (!isObject(models.prosody)) return
+
+  expectField(
+    models.prosody,
+    "scores",
+    "object",
+    false,
+    "models.prosody.scores"
+  )
+  Object.entries(models.prosody.scores as Frame).forEach(([name, score]) => {
+    if (typeof score !== "number") {
+      throw new Error(
+        `field "models.prosody.scores.${name}" should be a number, got ${kindOf(
+          score
+        )}`
+      )
+    }
+  })
+}
+
+/**
+ * Field checks per inbound message type
+ * Keyed by every member of the union, so a new type cannot be forgotten here
+ */
+const validators: {
+  [Type in EviInboundMessage["type"]]: (frame: Frame) => void
+} = {
+  chat_metadata: (frame) => {
+    expectField(frame, "chat_id", "string")
+    expectField(frame, "chat_group_id", "string")
+    expectField(frame, "request_id", "string", true)
+  },
+  user_message: (frame) => {
+    expectChatMessage(frame)
+    expectInference(frame)
+    expectField(frame, "interim", "boolean", true)
+    expectField(frame, "from_text", "boolean", true)
+    expectField(frame, "time", "object", true)
+  },
+  assistant_message: (frame) => {
+    expectChatMessage(frame)
+    expectInference(frame)
+    expectField(frame, "id", "string", true)
+    expectField(frame, "from_text", "boolean", true)
+  },
+  audio_output: (frame) => {
+    expectField(frame, "data", "string")
+    expectField(frame, "id", "string", true)
+    expectField(frame, "index", "number", true)
+  },
+  assistant_end: () => {},
+  user_interruption: (frame) => {
+    expectField(frame, "time", "number", true)
+  },
+  tool_call: (frame) => {
+    expectField(frame, "name", "string")
+    expectField(frame, "parameters", "string")
+    expectField(frame, "tool_call_id", "string")
+    expectField(frame, "tool_type", "string", true)
+    expectField(frame, "response_required", "boolean", true)
+  },
+  tool_response: (frame) => {
+    expectField(frame, "tool_call_id", "string")
+    expectField(frame, "content", "string")
+    expectField(frame, "tool_name", "string", true)
+  },
+  tool_error: (frame) => {
+    expectField(frame, "tool_call_id", "string")
+    expectField(frame, "error", "string")
+    expectField(frame, "content", "string", true)
+    expectField(frame, "code", "string", true)
+  },
+  error: (frame) => {
+    expectField(frame, "message", "string")
+    expectField(frame, "code", "string", true)
+    expectField(frame, "slug", "string", true)
+  },
+}
+
+const isKnownType = (type: string): type is EviInboundMessage["type"] =>
+  Object.prototype.hasOwnProperty.call(validators, type)
+
+/**
+ * Parse and validate a raw WebSocket frame from EVI
+ * Types the client does not handle come back as "unknown" so they can be ignored
+ * Throws EviMessageParseError describing what is wrong with the frame
+ */
+export const parseEviMessage = (
+  data: unknown
+): EviInboundMessage | UnknownEviMessage => {
+  if (typeof data !== "string") {
+    throw new EviMessageParseError(
+      `Expected a text frame, got ${kindOf(data)}`,
+      data
+    )
+  }
+
+  let frame: unknown
+  try {
+    frame = JSON.parse(data)
+  } catch (error) {
+    throw new EviMessageParseError(
+      `Frame is not valid JSON: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+      data
+    )
+  }
+
+  if (!isObject(frame) || typeof frame.type !== "string") {
+    throw new EviMessageParseError(
+      'Frame is not an object with a string "type" field',
+      data
+    )
+  }
+
+  // EVI adds message types over time, none of them are errors
+  if (!isKnownType(frame.type)) {
+    return { type: "unknown", originalType: frame.type, raw: frame }
+  }
+
+  try {
+    validators[frame.type](frame)
+  } catch (error) {
+    throw new EviMessageParseError(
+      `Invalid ${frame.type} message: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+      data
+    )
+  }
+
+  return frame as unknown as EviInboundMessage
+}
+
+/**
+ * Compile-time exhaustiveness guard for switches over message types
+ */
+export const assertNever = (value: never): never => {
+  throw new Error(`Unexpected message: ${JSON.stringify(value)}`)
+}
@@ -0,0 +1,143 @@
+import { ConversationSession, VoiceMessage } from "@/types/hume"
+import { serializeConversation } from "./conversationJson"
+import { toMarkdown } from "./markdown"
+import { toSrt, toWebVtt } from "./subtitles"
+import { createZip, ZipEntry } from "./zip"
+import { createLogger } from "@/lib/logger"
+
+const log = createLogger("export")
+
+export type ExportFormat = "json" | "markdown" | "srt" | "vtt" | "zip"
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "json", label: "JSON (re-importable)" },
+  { format: "markdown", label: "Markdown transcript" },
+  { format: "srt", label: "Subtitles (SRT)" },
+  { format: "vtt", label: "Subtitles (WebVTT)" },
+  { format: "zip", label: "Archive with audio (ZIP)" },
+]
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/wav": "wav",
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/mpeg": "mp3",
+}
+
+/**
+ * File name stem from the session title
+ */
+const toFileStem = (session: ConversationSession): string => {
+  const slug = session.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40)
+  return `${slug || "conversation"}-${session.createdAt
+    .toISOString()
+    .slice(0, 10)}`
+}
+
+/**
+ * Fetch the replay clip behind a message, null once it was evicted
+ */
+const fetchAudio = async (message: VoiceMessage): Promise<Blob | null> => {
+  if (!message.audioUrl) return null
+
+  try {
+    const response = await fetch(message.audioUrl)
+    return response.ok ? await response.blob() : null
+  } catch (error) {
+    log.warn("Audio for message is no longer available:", message.id, error)
+    return null
+  }
+}
+
+/**
+ * Transcript files plus one audio file per turn that still has its clip
+ */
+const buildArchive = async (session: ConversationSession): Promise<Blob> => {
+  const audioFiles = new Map<string, string>()
+  const audioEntries: ZipEntry[] = []
+
+  for (const [index, message] of session.messages.entries()) {
+    const audio = await fetchAudio(message)
+    if (!audio) continue
+
+    const mimeType = audio.type.split(";")[0]
+    const path = `audio/${String(index + 1).padStart(3, "0")}-${
+      message.type
+    }.${AUDIO_EXTENSIONS[mimeType] ?? "bin"}`
+    audioFiles.set(message.id, path)
+    audioEntries.push({ path, data: audio })
+  }
+
+  return createZip([
+    {
+      path: "conversation.json",
+      data: serializeConversation(session, audioFiles),
+    },
+    { path: "transcript.md", data: toMarkdown(session) },
+    { path: "transcript.srt", data: toSrt(session.messages) },
+    { path: "transcript.vtt", data: toWebVtt(session.messages) },
+    ...audioEntries,
+  ])
+}
+
+/**
+ * Render a session in one of the export formats
+ */
+export const exportConversation = async (
+  session: ConversationSession,
+  format: ExportFormat
+): Promise<{ blob: Blob; fileName: string }> => {
+  const stem = toFileStem(session)
+
+  switch (format) {
+    case "json":
+      return {
+        blob: new Blob([serializeConversation(session)], {
+          type: "application/json",
+        }),
+        fileName: `${stem}.json`,
+      }
+    case "markdown":
+      return {
+        blob: new Blob([toMarkdown(session)], { type: "text/markdown" }),
+        fileName: `${stem}.md`,
+      }
+    case "srt":
+      return {
+        blob: new Blob([toSrt(session.messages)], {
+          type: "application/x-subrip",
+        }),
+        fileName: `${stem}.srt`,
+      }
+    case "vtt":
+      return {
+        blob: new Blob([toWebVtt(session.messages)], { type: "text/vtt" }),
+        fileName: `${stem}.vtt`,
+      }
+    case "zip":
+      return {
+        blob: await buildArchive(session),
+        fileName: `${stem}.zip`,
+      }
+  }
+}
+
+/**
+ * Save a blob through a temporary download link
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Revoke after the click has handed the URL to the download
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest"
+import { ConversationExport, ConversationSession } from "@/types/hume"
+import {
+  ConversationImportError,
+  parseConversationExport,
+  serializeConversation,
+} from "./conversationJson"
+
+const session: ConversationSession = {
+  id: "session-1",
+  title: "Weather in Oslo",
+  chatId: "chat-1",
+  chatGroupId: "group-1",
+  createdAt: new Date("2024-05-01T10:00:00.000Z"),
+  updatedAt: new Date("2024-05-01T10:05:00.000Z"),
+  messages: [
+    {
+      id: "user-1",
+      type: "user",
+      content: "What's the weather in Oslo?",
+      timestamp: new Date("2024-05-01T10:00:05.000Z"),
+      duration: 1.8,
+      emotions: [{ name: "Interest", score: 0.7 }],
+    },
+    {
+      id: "tool-1",
+      type: "tool",
+      content: "get_weather",
+      timestamp: new Date("2024-05-01T10:00:06.000Z"),
+      emotions: [],
+      toolInvocation: {
+        toolCallId: "call-1",
+        name: "get_weather",
+        arguments: '{"city":"Oslo"}',
+        status: "succeeded",
+        result: "12°C",
+      },
+    },
+    {
+      id: "assistant-1",
+      type: "assistant",
+      content: "It's 12 degrees.",
+      timestamp: new Date("2024-05-01T10:00:07.000Z"),
+      emotions: [],
+      isTruncated: true,
+    },
+  ],
+}
+
+/**
+ * Serialize the session, change the parsed JSON and parse it back
+ */
+const importEdited = (edit: (data: ConversationExport) => void) => {
+  const data = JSON.parse(serializeConversation(session))
+  edit(data)
+  return () => parseConversationExport(JSON.stringify(data))
+}
+
+describe("parseConversationExport", () => {
+  it("reads back what serializeConversation wrote", () => {
+    const audioFiles = new Map([["user-1", "audio/001-user.wav"]])
+    const text = serializeConversation(session, audioFiles)
+
+    expect(JSON.parse(text).messages[0].audioFile).toBe("audio/001-user.wav")
+    expect(parseConversationExport(text)).toEqual(session)
+  })
+
+  it("rejects files that are not a conversation export", () => {
+    expect(() => parseConversationExport("not json")).toThrow(
+      new ConversationImportError("File is not valid JSON")
+    )
+    expect(() => parseConversationExport('{"messages":[]}')).toThrow(
+      "File is not a Freja conversation export"
+    )
+    expect(
+      importEdited((data) => {
+        Object.assign(data, { version: 2 })
+      })
+    ).toThrow("Unsupported export version 2, expected 1")
+  })
+
+  it("names the field that is wrong", () => {
+    expect(
+      importEdited((data) => {
+        data.session.createdAt = "yesterday"
+      })
+    ).toThrow('"session.createdAt" should be an ISO 8601 date')
+    expect(
+      importEdited((data) => {
+        Object.assign(data.messages[1], { type: "system" })
+      })
+    ).toThrow('"messages[1].type" should be one of user, assistant, tool')
+    expect(
+      importEdited((data) => {
+        Object.assign(data.messages[0], { emotions: [{ name: "Joy" }] })
+      })
+    ).toThrow('"messages[0].emotions" should be a list of { name, score }')
+    expect(
+      importEdited((data) => {
+        Object.assign(data.messages[2], { content: undefined })
+      })
+    ).toThrow('"messages[2].content" should be a string')
+  })
+
+  it("rejects a tool invocation the transcript cannot render", () => {
+    expect(
+      importEdited((data) => {
+        Object.assign(data.messages[1].toolInvocation!, {
+          arguments: undefined,
+        })
+      })
+    ).toThrow('"messages[1].toolInvocation.arguments" should be a string')
+    expect(
+      importEdited((data) => {
+        Object.assign(data.messages[1].toolInvocation!, { status: "done" })
+      })
+    ).toThrow(
+      '"messages[1].toolInvocation.status" should be one of running, succeeded, failed'
+    )
+    expect(
+      importEdited((data) => {
+        Object.assign(data.messages[1].toolInvocation!, { result: 12 })
+      })
+    ).toThrow('"messages[1].toolInvocation.result" should be a string')
+  })
+})
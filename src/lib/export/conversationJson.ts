@@ -0,0 +1,210 @@
+import {
+  ConversationExport,
+  ConversationExportMessage,
+  ConversationSession,
+  ToolInvocation,
+  VoiceMessage,
+} from "@/types/hume"
+
+export const CONVERSATION_EXPORT_FORMAT = "freja-conversation"
+export const CONVERSATION_EXPORT_VERSION = 1
+
+const MESSAGE_TYPES: VoiceMessage["type"][] = ["user", "assistant", "tool"]
+
+const TOOL_STATUSES: ToolInvocation["status"][] = [
+  "running",
+  "succeeded",
+  "failed",
+]
+
+type Fields = Record<string, unknown>
+
+/**
+ * Raised when an imported file is not a conversation export this version can read
+ */
+export class ConversationImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ConversationImportError"
+  }
+}
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const expectString = (record: Fields, key: string, path: string): string => {
+  const value = record[key]
+  if (typeof value !== "string") {
+    throw new ConversationImportError(`"${path}" should be a string`)
+  }
+  return value
+}
+
+const optionalString = (
+  record: Fields,
+  key: string,
+  path: string
+): string | undefined =>
+  record[key] === undefined ? undefined : expectString(record, key, path)
+
+const expectDate = (record: Fields, key: string, path: string): Date => {
+  const date = new Date(expectString(record, key, path))
+  if (Number.isNaN(date.getTime())) {
+    throw new ConversationImportError(`"${path}" should be an ISO 8601 date`)
+  }
+  return date
+}
+
+/**
+ * Convert a session to the export schema
+ * audioFiles maps message ids to their audio path inside an archive
+ */
+export const buildConversationExport = (
+  session: ConversationSession,
+  audioFiles?: Map<string, string>
+): ConversationExport => ({
+  format: CONVERSATION_EXPORT_FORMAT,
+  version: CONVERSATION_EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  session: {
+    id: session.id,
+    title: session.title,
+    chatId: session.chatId,
+    chatGroupId: session.chatGroupId,
+    createdAt: session.createdAt.toISOString(),
+    updatedAt: session.updatedAt.toISOString(),
+  },
+  messages: session.messages.map((message): ConversationExportMessage => ({
+    id: message.id,
+    type: message.type,
+    content: message.content,
+    timestamp: message.timestamp.toISOString(),
+    duration: message.duration,
+    emotions: message.emotions,
+    isTyped: message.isTyped,
+    isTruncated: message.isTruncated,
+    toolInvocation: message.toolInvocation,
+    audioFile: audioFiles?.get(message.id),
+  })),
+})
+
+export const serializeConversation = (
+  session: ConversationSession,
+  audioFiles?: Map<string, string>
+): string =>
+  JSON.stringify(buildConversationExport(session, audioFiles), null, 2)
+
+const parseToolInvocation = (value: unknown, path: string): ToolInvocation => {
+  if (!isObject(value)) {
+    throw new ConversationImportError(`"${path}" should be an object`)
+  }
+
+  const status = value.status as ToolInvocation["status"]
+  if (!TOOL_STATUSES.includes(status)) {
+    throw new ConversationImportError(
+      `"${path}.status" should be one of ${TOOL_STATUSES.join(", ")}`
+    )
+  }
+
+  return {
+    toolCallId: expectString(value, "toolCallId", `${path}.toolCallId`),
+    name: expectString(value, "name", `${path}.name`),
+    arguments: expectString(value, "arguments", `${path}.arguments`),
+    status,
+    result: optionalString(value, "result", `${path}.result`),
+    error: optionalString(value, "error", `${path}.error`),
+  }
+}
+
+const parseMessage = (value: unknown, index: number): VoiceMessage => {
+  const path = `messages[${index}]`
+  if (!isObject(value)) {
+    throw new ConversationImportError(`"${path}" should be an object`)
+  }
+
+  const type = value.type as VoiceMessage["type"]
+  if (!MESSAGE_TYPES.includes(type)) {
+    throw new ConversationImportError(
+      `"${path}.type" should be one of ${MESSAGE_TYPES.join(", ")}`
+    )
+  }
+
+  const duration = value.duration
+  if (duration !== undefined && typeof duration !== "number") {
+    throw new ConversationImportError(`"${path}.duration" should be a number`)
+  }
+
+  const emotions = value.emotions
+  if (
+    emotions !== undefined &&
+    !(
+      Array.isArray(emotions) &&
+      emotions.every(
+        (emotion) =>
+          isObject(emotion) &&
+          typeof emotion.name === "string" &&
+          typeof emotion.score === "number"
+      )
+    )
+  ) {
+    throw new ConversationImportError(
+      `"${path}.emotions" should be a list of { name, score }`
+    )
+  }
+
+  const toolInvocation =
+    value.toolInvocation === undefined
+      ? undefined
+      : parseToolInvocation(value.toolInvocation, `${path}.toolInvocation`)
+
+  // Audio stays in the archive, imported turns are transcript only
+  return {
+    id: expectString(value, "id", `${path}.id`),
+    type,
+    content: expectString(value, "content", `${path}.content`),
+    timestamp: expectDate(value, "timestamp", `${path}.timestamp`),
+    duration,
+    emotions: emotions as VoiceMessage["emotions"],
+    isTyped: value.isTyped === true || undefined,
+    isTruncated: value.isTruncated === true || undefined,
+    toolInvocation,
+  }
+}
+
+/**
+ * Read an exported conversation back into a session
+ */
+export const parseConversationExport = (text: string): ConversationSession => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new ConversationImportError("File is not valid JSON")
+  }
+
+  if (!isObject(data) || data.format !== CONVERSATION_EXPORT_FORMAT) {
+    throw new ConversationImportError("File is not a Freja conversation export")
+  }
+  if (data.version !== CONVERSATION_EXPORT_VERSION) {
+    throw new ConversationImportError(
+      `Unsupported export version ${String(data.version)}, expected ${CONVERSATION_EXPORT_VERSION}`
+    )
+  }
+  if (!isObject(data.session)) {
+    throw new ConversationImportError('"session" should be an object')
+  }
+  if (!Array.isArray(data.messages)) {
+    throw new ConversationImportError('"messages" should be a list')
+  }
+
+  const session = data.session
+  return {
+    id: expectString(session, "id", "session.id"),
+    title: expectString(session, "title", "session.title"),
+    chatId: optionalString(session, "chatId", "session.chatId"),
+    chatGroupId: optionalString(session, "chatGroupId", "session.chatGroupId"),
+    createdAt: expectDate(session, "createdAt", "session.createdAt"),
+    updatedAt: expectDate(session, "updatedAt", "session.updatedAt"),
+    messages: data.messages.map(parseMessage),
+  }
+}
@@ -0,0 +1,70 @@
+import { ConversationSession, VoiceMessage } from "@/types/hume"
+import { SPEAKER_NAMES } from "./subtitles"
+
+const TOP_EMOTIONS = 3
+
+const formatEmotions = (message: VoiceMessage): string | null => {
+  if (!message.emotions || message.emotions.length === 0) return null
+
+  return message.emotions
+    .slice(0, TOP_EMOTIONS)
+    .map(({ name, score }) => `${name} ${(score * 100).toFixed(0)}%`)
+    .join(", ")
+}
+
+const renderToolMessage = (message: VoiceMessage): string => {
+  const invocation = message.toolInvocation
+  if (!invocation) return `> ${message.content}`
+
+  const lines = [
+    `> **Tool** \`${invocation.name}\` (${invocation.status}) · ${message.timestamp.toLocaleTimeString()}`,
+    ">",
+    "> ```json",
+    ...invocation.arguments.split("\n").map((line) => `> ${line}`),
+    "> ```",
+  ]
+  if (invocation.result !== undefined) {
+    lines.push(">", `> Result: ${invocation.result}`)
+  }
+  if (invocation.error !== undefined) {
+    lines.push(">", `> Error: ${invocation.error}`)
+  }
+  return lines.join("\n")
+}
+
+const renderMessage = (message: VoiceMessage): string => {
+  if (message.type === "tool") return renderToolMessage(message)
+
+  const details = [
+    message.timestamp.toLocaleTimeString(),
+    message.duration !== undefined && `${message.duration.toFixed(1)}s`,
+    message.isTyped && "typed",
+    message.isTruncated && "interrupted",
+  ].filter(Boolean)
+  const emotions = formatEmotions(message)
+
+  return [
+    `### ${SPEAKER_NAMES[message.type]} · ${details.join(" · ")}`,
+    "",
+    message.content,
+    ...(emotions ? ["", `_Emotions: ${emotions}_`] : []),
+  ].join("\n")
+}
+
+/**
+ * Readable transcript of a conversation
+ */
+export const toMarkdown = (session: ConversationSession): string => {
+  const header = [
+    `# ${session.title}`,
+    "",
+    `- Started: ${session.createdAt.toLocaleString()}`,
+    `- Messages: ${session.messages.length}`,
+    ...(session.chatId ? [`- EVI chat: \`${session.chatId}\``] : []),
+  ]
+
+  return (
+    [header.join("\n"), ...session.messages.map(renderMessage)].join("\n\n") +
+    "\n"
+  )
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest"
+import { VoiceMessage } from "@/types/hume"
+import { getTurnTimings, toSrt, toWebVtt } from "./subtitles"
+
+const T0 = Date.UTC(2024, 0, 1, 12)
+
+const message = (
+  type: VoiceMessage["type"],
+  content: string,
+  atMs: number,
+  extra: Partial<VoiceMessage> = {}
+): VoiceMessage => ({
+  id: `${type}-${atMs}`,
+  type,
+  content,
+  timestamp: new Date(T0 + atMs),
+  emotions: [],
+  ...extra,
+})
+
+const conversation = [
+  // Spoken user turns are stamped when their transcript arrives, at the end
+  message("user", "Hello there", 2000),
+  message("assistant", "Hi!\n\nHow can I help?", 2500, { duration: 1.5 }),
+  message("tool", "get_weather", 2600),
+  message("user", "Is 1 < 2 & 3?", 2800, { isTyped: true }),
+]
+
+describe("getTurnTimings", () => {
+  it("places turns on one timeline without overlaps", () => {
+    expect(
+      getTurnTimings(conversation).map(({ message, startMs, endMs }) => [
+        message.type,
+        startMs,
+        endMs,
+      ])
+    ).toEqual([
+      // Two words are shorter than the one second minimum
+      ["user", 0, 1000],
+      ["assistant", 1500, 3000],
+      // Typed turns start at their timestamp, but wait for the reply to end
+      ["user", 3000, 5400],
+    ])
+  })
+
+  it("skips tool calls and empty turns", () => {
+    expect(
+      getTurnTimings([message("tool", "x", 0), message("user", "  ", 0)])
+    ).toEqual([])
+  })
+})
+
+describe("toSrt", () => {
+  it("numbers cues and joins paragraphs so no blank line ends a cue early", () => {
+    expect(toSrt(conversation)).toBe(
+      [
+        "1\n00:00:00,000 --> 00:00:01,000\nUser: Hello there\n",
+        "2\n00:00:01,500 --> 00:00:03,000\nFreja AI: Hi!\nHow can I help?\n",
+        "3\n00:00:03,000 --> 00:00:05,400\nUser: Is 1 < 2 & 3?\n",
+      ].join("\n")
+    )
+  })
+
+  it("formats hours and milliseconds", () => {
+    const long = [
+      message("assistant", "Start", 0, { duration: 1 }),
+      message("assistant", "Much later", 3_723_456, { duration: 1 }),
+    ]
+    expect(toSrt(long)).toContain("01:02:03,456 --> 01:02:04,456")
+  })
+})
+
+describe("toWebVtt", () => {
+  it("writes voice tags with escaped text under the message ids", () => {
+    expect(toWebVtt(conversation)).toBe(
+      [
+        "WEBVTT\n",
+        "user-2000\n00:00:00.000 --> 00:00:01.000\n<v User>Hello there\n",
+        "assistant-2500\n00:00:01.500 --> 00:00:03.000\n<v Freja AI>Hi!\nHow can I help?\n",
+        "user-2800\n00:00:03.000 --> 00:00:05.400\n<v User>Is 1 &lt; 2 &amp; 3?\n",
+      ].join("\n")
+    )
+  })
+})
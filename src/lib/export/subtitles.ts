@@ -0,0 +1,103 @@
+import { VoiceMessage } from "@/types/hume"
+
+// Reading speed used when a turn has no recorded audio
+const WORDS_PER_SECOND = 2.5
+const MIN_CUE_MS = 1000
+
+export const SPEAKER_NAMES: Record<VoiceMessage["type"], string> = {
+  user: "User",
+  assistant: "Freja AI",
+  tool: "Tool",
+}
+
+export interface TurnTiming {
+  message: VoiceMessage
+  // Offsets from the start of the first turn
+  startMs: number
+  endMs: number
+}
+
+const estimateSpokenMs = (content: string): number => {
+  const words = content.trim().split(/\s+/).filter(Boolean).length
+  return Math.max(MIN_CUE_MS, (words / WORDS_PER_SECOND) * 1000)
+}
+
+/**
+ * Place each spoken turn on a shared timeline
+ * User turns are stamped when their transcript arrives, so they end at the timestamp;
+ * assistant turns are stamped when they start. Turns never overlap.
+ */
+export const getTurnTimings = (messages: VoiceMessage[]): TurnTiming[] => {
+  const spoken = messages
+    .filter((message) => message.type !== "tool" && message.content.trim())
+    .map((message) => {
+      const durationMs =
+        message.duration !== undefined
+          ? message.duration * 1000
+          : estimateSpokenMs(message.content)
+      const at = message.timestamp.getTime()
+      const startsAtTimestamp = message.type === "assistant" || message.isTyped
+
+      return {
+        message,
+        start: startsAtTimestamp ? at : at - durationMs,
+        durationMs,
+      }
+    })
+    .sort((a, b) => a.start - b.start)
+
+  if (spoken.length === 0) return []
+
+  const origin = spoken[0].start
+  let previousEnd = 0
+
+  return spoken.map(({ message, start, durationMs }) => {
+    const startMs = Math.max(Math.round(start - origin), previousEnd)
+    const endMs = startMs + Math.round(Math.max(durationMs, MIN_CUE_MS))
+    previousEnd = endMs
+    return { message, startMs, endMs }
+  })
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0")
+
+/**
+ * Format an offset as HH:MM:SS plus milliseconds after the given separator
+ */
+const formatCueTime = (ms: number, separator: "," | "."): string => {
+  const hours = Math.floor(ms / 3_600_000)
+  const minutes = Math.floor((ms % 3_600_000) / 60_000)
+  const seconds = Math.floor((ms % 60_000) / 1000)
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(
+    ms % 1000,
+    3
+  )}`
+}
+
+// Blank lines end a cue in both formats
+const toCueText = (content: string) => content.trim().replace(/\n\s*\n/g, "\n")
+
+export const toSrt = (messages: VoiceMessage[]): string =>
+  getTurnTimings(messages)
+    .map(
+      ({ message, startMs, endMs }, index) =>
+        `${index + 1}\n${formatCueTime(startMs, ",")} --> ${formatCueTime(
+          endMs,
+          ","
+        )}\n${SPEAKER_NAMES[message.type]}: ${toCueText(message.content)}\n`
+    )
+    .join("\n")
+
+export const toWebVtt = (messages: VoiceMessage[]): string =>
+  [
+    "WEBVTT\n",
+    ...getTurnTimings(messages).map(
+      ({ message, startMs, endMs }) =>
+        `${message.id}\n${formatCueTime(startMs, ".")} --> ${formatCueTime(
+          endMs,
+          "."
+        )}\n<v ${SPEAKER_NAMES[message.type]}>${toCueText(message.content)
+          .replace(/&/g, "&amp;")
+          .replace(/</g, "&lt;")}\n`
+    ),
+  ].join("\n")
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest"
+import { createZip } from "./zip"
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer())
+
+interface ReadEntry {
+  path: string
+  crc: number
+  data: string
+}
+
+/**
+ * Read a stored-only archive through its central directory, as unzip does
+ */
+const readZip = (bytes: Uint8Array): ReadEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const decoder = new TextDecoder()
+  const end = bytes.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  expect(offset + view.getUint32(end + 12, true)).toBe(end)
+
+  return Array.from({ length: count }, () => {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50)
+    const crc = view.getUint32(offset + 16, true)
+    const size = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const path = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength)
+    )
+    offset += 46 + nameLength
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50)
+    expect(view.getUint32(localOffset + 14, true)).toBe(crc)
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true)
+    const data = decoder.decode(bytes.subarray(dataStart, dataStart + size))
+
+    return { path, crc, data }
+  })
+}
+
+describe("createZip", () => {
+  it("stores text and blob entries that read back with their checksums", async () => {
+    const zip = await createZip([
+      {
+        path: "conversation.json",
+        data: "The quick brown fox jumps over the lazy dog",
+      },
+      { path: "audio/möte.txt", data: new Blob(["räksmörgås"]) },
+    ])
+    expect(zip.type).toBe("application/zip")
+
+    expect(readZip(await bytesOf(zip))).toEqual([
+      {
+        path: "conversation.json",
+        // Reference CRC-32 of this sentence
+        crc: 0x414fa339,
+        data: "The quick brown fox jumps over the lazy dog",
+      },
+      { path: "audio/möte.txt", crc: expect.any(Number), data: "räksmörgås" },
+    ])
+  })
+
+  it("stamps entries with the MS-DOS modification time", async () => {
+    const bytes = await bytesOf(
+      await createZip(
+        [{ path: "a.txt", data: "" }],
+        new Date(2024, 4, 17, 13, 45, 31)
+      )
+    )
+    const view = new DataView(bytes.buffer)
+
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15)
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (5 << 5) | 17)
+  })
+
+  it("writes a valid empty archive", async () => {
+    const bytes = await bytesOf(await createZip([]))
+
+    expect(bytes).toHaveLength(22)
+    expect(readZip(bytes)).toEqual([])
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Minimal ZIP writer for export archives
+ * Entries are stored uncompressed; WAV and text compress poorly enough in
+ * the browser that a deflate dependency is not worth it
+ */
+
+export interface ZipEntry {
+  path: string
+  data: Blob | string
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+const ZIP_VERSION = 20
+// Bit 11 marks file names as UTF-8
+const UTF8_FLAG = 0x0800
+
+let crcTable: Uint32Array | null = null
+
+const getCrcTable = (): Uint32Array => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+  return crcTable
+}
+
+const crc32 = (bytes: Uint8Array): number => {
+  const table = getCrcTable()
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * MS-DOS date and time fields, which have two second resolution
+ */
+const toDosDateTime = (date: Date) => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    ((date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+})
+
+/**
+ * Bundle files into a ZIP archive
+ */
+export const createZip = async (
+  entries: ZipEntry[],
+  modifiedAt = new Date()
+): Promise<Blob> => {
+  const encoder = new TextEncoder()
+  const { time, date } = toDosDateTime(modifiedAt)
+  const parts: BlobPart[] = []
+  const centralDirectory: BlobPart[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path)
+    const data =
+      typeof entry.data === "string"
+        ? encoder.encode(entry.data)
+        : new Uint8Array(await entry.data.arrayBuffer())
+    const crc = crc32(data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true)
+    local.setUint16(4, ZIP_VERSION, true)
+    local.setUint16(6, UTF8_FLAG, true)
+    local.setUint16(8, 0, true) // stored
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true)
+    central.setUint16(4, ZIP_VERSION, true)
+    central.setUint16(6, ZIP_VERSION, true)
+    central.setUint16(8, UTF8_FLAG, true)
+    central.setUint16(10, 0, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, date, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, data.length, true)
+    central.setUint32(24, data.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+
+    parts.push(local, name, data)
+    centralDirectory.push(central, name)
+    offset += 30 + name.length + data.length
+  }
+
+  const centralSize = centralDirectory.reduce(
+    (size, part) => size + (part as ArrayBufferView).byteLength,
+    0
+  )
+
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...centralDirectory, end], {
+    type: "application/zip",
+  })
+}
@@ -0,0 +1,92 @@
+/**
+ * Client-side access token handling for Hume EVI
+ * Tokens come from our own token broker so the API key never reaches the browser
+ */
+import { TokenErrorResponse } from "@/types/hume"
+
+const TOKEN_ENDPOINT = "/api/hume/token"
+
+// Fetch a fresh token when the cached one has less than this left
+const REFRESH_MARGIN_MS = 60_000
+
+interface AccessToken {
+  accessToken: string
+  expiresAt: number
+}
+
+let cachedToken: AccessToken | null = null
+let pendingToken: Promise<AccessToken> | null = null
+
+/**
+ * The token broker refused to issue a token
+ * code is null when the response did not come from the broker itself
+ */
+export class AccessTokenError extends Error {
+  readonly status: number
+  readonly code: TokenErrorResponse["code"] | null
+
+  constructor(
+    message: string,
+    status: number,
+    code: TokenErrorResponse["code"] | null = null
+  ) {
+    super(message)
+    this.name = "AccessTokenError"
+    this.status = status
+    this.code = code
+  }
+}
+
+/**
+ * Request a token from the token broker route
+ */
+const requestAccessToken = async (): Promise<AccessToken> => {
+  const response = await fetch(TOKEN_ENDPOINT, { cache: "no-store" })
+  const data = await response.json().catch(() => null)
+
+  if (!response.ok) {
+    throw new AccessTokenError(
+      data?.error || `Token request failed with status ${response.status}`,
+      response.status,
+      data?.code ?? null
+    )
+  }
+
+  if (
+    typeof data?.accessToken !== "string" ||
+    typeof data?.expiresAt !== "number"
+  ) {
+    throw new Error("Token broker returned an invalid response")
+  }
+
+  return data
+}
+
+/**
+ * Get a valid access token, reusing the cached one until it nears expiry
+ */
+export const getAccessToken = async (): Promise<string> => {
+  if (cachedToken && cachedToken.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    return cachedToken.accessToken
+  }
+
+  if (!pendingToken) {
+    pendingToken = requestAccessToken()
+      .then((token) => {
+        cachedToken = token
+        return token
+      })
+      .finally(() => {
+        pendingToken = null
+      })
+  }
+
+  return (await pendingToken).accessToken
+}
+
+/**
+ * Drop the cached token, e.g. after the server rejects it
+ */
+export const clearAccessToken = () => {
+  cachedToken = null
+}
@@ -0,0 +1,175 @@
+/**
+ * Leveled, namespaced logging
+ * Verbosity can be changed at runtime and per namespace prefix, e.g. "evi" covers "evi:socket"
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent"
+
+export interface LogEntry {
+  at: number
+  level: Exclude<LogLevel, "silent">
+  namespace: string
+  message: string
+}
+
+export interface Logger {
+  debug: (message: string, ...details: unknown[]) => void
+  info: (message: string, ...details: unknown[]) => void
+  warn: (message: string, ...details: unknown[]) => void
+  error: (message: string, ...details: unknown[]) => void
+}
+
+interface LogConfig {
+  level: LogLevel
+  namespaces: Record<string, LogLevel>
+}
+
+export const LOG_LEVELS: LogLevel[] = [
+  "debug",
+  "info",
+  "warn",
+  "error",
+  "silent",
+]
+
+const STORAGE_KEY = "freja.logLevel"
+
+// Warnings and errors kept for the diagnostics overlay
+const RECENT_ENTRY_LIMIT = 20
+
+const DEFAULT_CONFIG: LogConfig = {
+  level: process.env.NODE_ENV === "production" ? "warn" : "info",
+  namespaces: {},
+}
+
+let config: LogConfig | null = null
+const recentEntries: LogEntry[] = []
+const listeners = new Set<() => void>()
+
+const rank = (level: LogLevel) => LOG_LEVELS.indexOf(level)
+
+const isLogLevel = (value: unknown): value is LogLevel =>
+  LOG_LEVELS.includes(value as LogLevel)
+
+/**
+ * Read the persisted config once, falling back to the build default
+ */
+const getConfig = (): LogConfig => {
+  if (config) return config
+  config = { ...DEFAULT_CONFIG, namespaces: {} }
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null")
+    if (isLogLevel(stored?.level)) {
+      config.level = stored.level
+    }
+    Object.entries(stored?.namespaces ?? {}).forEach(([namespace, level]) => {
+      if (isLogLevel(level)) config!.namespaces[namespace] = level
+    })
+  } catch {
+    // No storage on the server or in private modes, keep the default
+  }
+
+  return config
+}
+
+const saveConfig = (next: LogConfig) => {
+  config = next
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  } catch {
+    // Not persisted, still applies for this page
+  }
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * Level for a namespace, the longest configured prefix wins
+ */
+export const getLogLevel = (namespace?: string): LogLevel => {
+  const { level, namespaces } = getConfig()
+  if (!namespace) return level
+
+  const match = Object.keys(namespaces)
+    .filter(
+      (prefix) => namespace === prefix || namespace.startsWith(`${prefix}:`)
+    )
+    .sort((a, b) => b.length - a.length)[0]
+  return match ? namespaces[match] : level
+}
+
+/**
+ * Change verbosity, for one namespace prefix or for everything
+ */
+export const setLogLevel = (level: LogLevel, namespace?: string) => {
+  const current = getConfig()
+  saveConfig(
+    namespace
+      ? {
+          ...current,
+          namespaces: { ...current.namespaces, [namespace]: level },
+        }
+      : { level, namespaces: {} }
+  )
+}
+
+export const getRecentLogEntries = (): LogEntry[] => [...recentEntries]
+
+/**
+ * Notified when a warning or error is logged or the level changes
+ */
+export const subscribeToLogs = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+const formatDetail = (detail: unknown): string => {
+  if (detail instanceof Error) return detail.message
+  if (typeof detail === "string") return detail
+  try {
+    return JSON.stringify(detail)
+  } catch {
+    return String(detail)
+  }
+}
+
+export const createLogger = (namespace: string): Logger => {
+  const log =
+    (level: Exclude<LogLevel, "silent">) =>
+    (message: string, ...details: unknown[]) => {
+      // Problems are kept for the overlay even when they are not printed
+      if (rank(level) >= rank("warn")) {
+        recentEntries.push({
+          at: Date.now(),
+          level,
+          namespace,
+          message: details.length
+            ? `${message} ${details.map(formatDetail).join(" ")}`
+            : message,
+        })
+        if (recentEntries.length > RECENT_ENTRY_LIMIT) {
+          recentEntries.shift()
+        }
+        listeners.forEach((listener) => listener())
+      }
+
+      if (rank(level) < rank(getLogLevel(namespace))) return
+      console[level](`[${namespace}] ${message}`, ...details)
+    }
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  }
+}
+
+// Lets support change verbosity from the browser console: frejaLog.setLevel("debug")
+if (typeof window !== "undefined") {
+  Object.assign(window, {
+    frejaLog: { setLevel: setLogLevel, getLevel: getLogLevel },
+  })
+}
@@ -0,0 +1,87 @@
+/**
+ * Batched client telemetry, POSTed to /api/telemetry
+ * Best effort: a batch that fails to send is dropped rather than retried
+ */
+import { TelemetryBatch, TelemetryEvent } from "@/types/hume"
+import { createLogger } from "@/lib/logger"
+
+const log = createLogger("telemetry")
+
+export const TELEMETRY_ENDPOINT = "/api/telemetry"
+
+const FLUSH_INTERVAL_MS = 10_000
+const MAX_BATCH_EVENTS = 50
+
+export interface TelemetryClientOptions {
+  endpoint?: string
+  flushIntervalMs?: number
+  maxBatchEvents?: number
+}
+
+export interface TelemetryClient {
+  record: (event: TelemetryEvent) => void
+  flush: () => void
+  dispose: () => void
+}
+
+/**
+ * Queue events and send them every few seconds, and when the page is hidden
+ */
+export const createTelemetryClient = ({
+  endpoint = TELEMETRY_ENDPOINT,
+  flushIntervalMs = FLUSH_INTERVAL_MS,
+  maxBatchEvents = MAX_BATCH_EVENTS,
+}: TelemetryClientOptions = {}): TelemetryClient => {
+  // crypto.randomUUID is missing on plain-HTTP LAN origins
+  const clientId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+  let pending: TelemetryEvent[] = []
+  let flushTimeout: ReturnType<typeof setTimeout> | null = null
+
+  const flush = () => {
+    if (flushTimeout) {
+      clearTimeout(flushTimeout)
+      flushTimeout = null
+    }
+    if (pending.length === 0) return
+
+    const batch: TelemetryBatch = { clientId, events: pending }
+    pending = []
+
+    // keepalive lets the request outlive the page
+    fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(batch),
+      keepalive: true,
+    })
+      .then((response) => {
+        if (!response.ok) {
+          log.warn(`Telemetry rejected with status ${response.status}`)
+        }
+      })
+      .catch((error) => {
+        log.debug("Failed to send telemetry:", error)
+      })
+  }
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "hidden") flush()
+  }
+  document.addEventListener("visibilitychange", handleVisibilityChange)
+
+  return {
+    record: (event) => {
+      pending.push(event)
+      if (pending.length >= maxBatchEvents) {
+        flush()
+      } else if (!flushTimeout) {
+        flushTimeout = setTimeout(flush, flushIntervalMs)
+      }
+    },
+    flush,
+    dispose: () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+      flush()
+    },
+  }
+}
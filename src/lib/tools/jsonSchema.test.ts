@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest"
+import { JsonSchema } from "@/types/hume"
+import { validateJsonSchema } from "./jsonSchema"
+
+const weatherSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    city: { type: "string", minLength: 2, maxLength: 20 },
+    unit: { type: "string", enum: ["celsius", "fahrenheit"] },
+    days: { type: "integer", minimum: 1, maximum: 7 },
+    hours: { type: "array", items: { type: "number" } },
+  },
+  required: ["city"],
+  additionalProperties: false,
+}
+
+describe("validateJsonSchema", () => {
+  it("accepts a value that matches", () => {
+    expect(
+      validateJsonSchema(weatherSchema, {
+        city: "Oslo",
+        unit: "celsius",
+        days: 3,
+        hours: [6, 12.5],
+      })
+    ).toEqual([])
+  })
+
+  it("reports every problem with its path", () => {
+    expect(
+      validateJsonSchema(weatherSchema, {
+        unit: "kelvin",
+        days: 10,
+        hours: [6, "noon"],
+        country: "NO",
+      })
+    ).toEqual([
+      "arguments.city is required",
+      "arguments.unit should be one of celsius, fahrenheit",
+      "arguments.days should be at most 7",
+      "arguments.hours[1] should be number, got string",
+      "arguments.country is not allowed",
+    ])
+  })
+
+  it("tells integers from other numbers", () => {
+    expect(validateJsonSchema({ type: "integer" }, 2.5)).toEqual([
+      "arguments should be integer, got number",
+    ])
+    expect(validateJsonSchema({ type: "number" }, 2)).toEqual([])
+  })
+
+  it("checks string lengths and the type before anything else", () => {
+    expect(validateJsonSchema(weatherSchema, { city: "O" })).toEqual([
+      "arguments.city should have at least 2 characters",
+    ])
+    expect(validateJsonSchema(weatherSchema, null)).toEqual([
+      "arguments should be object, got null",
+    ])
+    expect(validateJsonSchema(weatherSchema, ["Oslo"])).toEqual([
+      "arguments should be object, got array",
+    ])
+  })
+
+  it("allows unknown properties unless they are forbidden", () => {
+    expect(
+      validateJsonSchema({ type: "object", properties: {} }, { extra: true })
+    ).toEqual([])
+  })
+})
@@ -0,0 +1,87 @@
+import { JsonSchema } from "@/types/hume"
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  if (Number.isInteger(value)) return "integer"
+  return typeof value
+}
+
+const matchesType = (type: JsonSchema["type"], value: unknown): boolean => {
+  const actual = typeOf(value)
+  if (type === "number") return actual === "number" || actual === "integer"
+  return actual === type
+}
+
+/**
+ * Validate a value against the subset of JSON Schema used for tool parameters
+ * Returns a list of problems, empty when the value is valid
+ */
+export const validateJsonSchema = (
+  schema: JsonSchema,
+  value: unknown,
+  path = "arguments"
+): string[] => {
+  if (schema.type && !matchesType(schema.type, value)) {
+    return [`${path} should be ${schema.type}, got ${typeOf(value)}`]
+  }
+
+  if (schema.enum && !(schema.enum as unknown[]).includes(value)) {
+    return [`${path} should be one of ${schema.enum.join(", ")}`]
+  }
+
+  const errors: string[] = []
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} should be at least ${schema.minimum}`)
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} should be at most ${schema.maximum}`)
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} should have at least ${schema.minLength} characters`)
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} should have at most ${schema.maxLength} characters`)
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(
+        ...validateJsonSchema(
+          schema.items as JsonSchema,
+          item,
+          `${path}[${index}]`
+        )
+      )
+    })
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>
+
+    schema.required?.forEach((key) => {
+      if (record[key] === undefined) {
+        errors.push(`${path}.${key} is required`)
+      }
+    })
+
+    Object.entries(record).forEach(([key, propertyValue]) => {
+      const propertySchema = schema.properties?.[key]
+      if (propertySchema) {
+        errors.push(
+          ...validateJsonSchema(propertySchema, propertyValue, `${path}.${key}`)
+        )
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`)
+      }
+    })
+  }
+
+  return errors
+}
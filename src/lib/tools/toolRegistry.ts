@@ -0,0 +1,40 @@
+import { ClientTool } from "@/types/hume"
+import { createLogger } from "@/lib/logger"
+
+const log = createLogger("tools")
+
+export interface ToolRegistry {
+  register: (tool: ClientTool) => () => void
+  get: (name: string) => ClientTool | undefined
+  list: () => ClientTool[]
+}
+
+/**
+ * Named client tools that EVI may call through tool_call messages
+ */
+export const createToolRegistry = (): ToolRegistry => {
+  const tools = new Map<string, ClientTool>()
+
+  /**
+   * Register a tool, returns a function that unregisters it again
+   */
+  const register = (tool: ClientTool) => {
+    if (tools.has(tool.name)) {
+      log.warn(`Replacing existing tool "${tool.name}"`)
+    }
+    tools.set(tool.name, tool)
+
+    return () => {
+      // Only remove the registration this call created
+      if (tools.get(tool.name) === tool) {
+        tools.delete(tool.name)
+      }
+    }
+  }
+
+  return {
+    register,
+    get: (name) => tools.get(name),
+    list: () => Array.from(tools.values()),
+  }
+}
@@ -0,0 +1,194 @@
+import { TrafficTraceEntry } from "@/types/hume"
+import { createLogger } from "@/lib/logger"
+
+const log = createLogger("evi:trace")
+
+/**
+ * Recording and replay of raw EVI socket traffic
+ * Traces are JSON Lines: a header line, then one entry per frame or socket event
+ */
+
+export const TRACE_FORMAT = "freja-evi-trace"
+export const TRACE_VERSION = 1
+
+// Recording stops once the trace holds this many characters, about 100 MB
+const MAX_TRACE_LENGTH = 100 * 1024 * 1024
+
+interface TraceHeader {
+  format: typeof TRACE_FORMAT
+  version: typeof TRACE_VERSION
+  startedAt: string
+}
+
+export interface TrafficRecorder {
+  recordFrame: (dir: "in" | "out", data: unknown) => void
+  recordOpen: (url: string) => void
+  recordClose: (code: number, reason: string) => void
+  toJsonl: () => string
+}
+
+export interface TraceReplayOptions {
+  // Playback speed multiplier, 0 dispatches frames back to back
+  speed: number
+  onFrame: (data: string) => void
+  onProgress: (position: number) => void
+  onDone: () => void
+}
+
+export interface TraceReplay {
+  stop: () => void
+}
+
+/**
+ * Raised when a file is not a trace this version can replay
+ */
+export class TraceParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "TraceParseError"
+  }
+}
+
+/**
+ * Collect frames with timestamps from the monotonic performance clock
+ */
+export const createTrafficRecorder = (): TrafficRecorder => {
+  const header: TraceHeader = {
+    format: TRACE_FORMAT,
+    version: TRACE_VERSION,
+    startedAt: new Date().toISOString(),
+  }
+  const startedAt = performance.now()
+  const lines: string[] = []
+  let traceLength = 0
+
+  const push = (entry: TrafficTraceEntry) => {
+    if (traceLength >= MAX_TRACE_LENGTH) return
+    const line = JSON.stringify(entry)
+    if (traceLength + line.length >= MAX_TRACE_LENGTH) {
+      log.warn("Traffic trace is full, later frames are not recorded")
+    }
+    traceLength += line.length
+    lines.push(line)
+  }
+
+  const elapsed = () =>
+    Math.round((performance.now() - startedAt) * 1000) / 1000
+
+  return {
+    recordFrame: (dir, data) => {
+      const t = elapsed()
+      if (typeof data !== "string") {
+        push({ t, dir, raw: String(data) })
+        return
+      }
+
+      try {
+        push({ t, dir, message: JSON.parse(data) })
+      } catch {
+        push({ t, dir, raw: data })
+      }
+    },
+    recordOpen: (url) => {
+      // Never write the access token into a file users pass around
+      const safeUrl = new URL(url)
+      safeUrl.searchParams.delete("access_token")
+      push({ t: elapsed(), dir: "event", event: "open", url: safeUrl.href })
+    },
+    recordClose: (code, reason) => {
+      push({ t: elapsed(), dir: "event", event: "close", code, reason })
+    },
+    toJsonl: () => [JSON.stringify(header), ...lines].join("\n") + "\n",
+  }
+}
+
+/**
+ * Read a .jsonl trace back into entries
+ */
+export const parseTrace = (text: string): TrafficTraceEntry[] => {
+  const [headerLine, ...lines] = text.split("\n").filter((line) => line.trim())
+
+  let header: Partial<TraceHeader> | null = null
+  try {
+    header = JSON.parse(headerLine ?? "")
+  } catch {
+    // Reported below
+  }
+  if (header?.format !== TRACE_FORMAT) {
+    throw new TraceParseError("File is not an EVI traffic trace")
+  }
+  if (header.version !== TRACE_VERSION) {
+    throw new TraceParseError(
+      `Unsupported trace version ${String(header.version)}, expected ${TRACE_VERSION}`
+    )
+  }
+
+  return lines.map((line, index) => {
+    let entry: TrafficTraceEntry
+    try {
+      entry = JSON.parse(line)
+    } catch {
+      throw new TraceParseError(`Line ${index + 2} is not valid JSON`)
+    }
+    if (typeof entry?.t !== "number" || typeof entry.dir !== "string") {
+      throw new TraceParseError(`Line ${index + 2} is not a trace entry`)
+    }
+    return entry
+  })
+}
+
+/**
+ * Feed the inbound frames of a trace to a handler with their recorded spacing
+ * Frames are scheduled against the replay start, so slow handlers do not add drift
+ */
+export const replayTrace = (
+  entries: TrafficTraceEntry[],
+  { speed, onFrame, onProgress, onDone }: TraceReplayOptions
+): TraceReplay => {
+  const inbound = entries.filter(
+    (entry): entry is Extract<TrafficTraceEntry, { dir: "in" | "out" }> =>
+      entry.dir === "in"
+  )
+  const firstAt = inbound[0]?.t ?? 0
+  const startedAt = performance.now()
+  let position = 0
+  let timeout: ReturnType<typeof setTimeout> | null = null
+  let stopped = false
+
+  const scheduleNext = () => {
+    if (stopped) return
+    if (position >= inbound.length) {
+      stopped = true
+      onDone()
+      return
+    }
+
+    const entry = inbound[position]
+    const dueAt =
+      speed > 0 ? startedAt + (entry.t - firstAt) / speed : performance.now()
+
+    timeout = setTimeout(
+      () => {
+        timeout = null
+        if (stopped) return
+
+        // Replay exactly what arrived, including frames the parser rejected
+        onFrame("message" in entry ? JSON.stringify(entry.message) : entry.raw)
+        position++
+        onProgress(position)
+        scheduleNext()
+      },
+      Math.max(0, dueAt - performance.now())
+    )
+  }
+
+  scheduleNext()
+
+  return {
+    stop: () => {
+      if (stopped) return
+      stopped = true
+      if (timeout) clearTimeout(timeout)
+    },
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Per-turn latency measurement
+ * EVI does its own endpointing, so the end of the user's speech is taken from the
+ * last time the microphone heard voice before the final user_message arrived
+ */
+import { TurnTimings } from "@/types/hume"
+
+export type TurnStage = Exclude<keyof TurnTimings, "at" | "isTyped">
+
+export const TURN_STAGES: { stage: TurnStage; label: string }[] = [
+  { stage: "userMessageMs", label: "Transcript" },
+  { stage: "assistantMessageMs", label: "First reply" },
+  { stage: "firstAudioMs", label: "First audio heard" },
+  { stage: "assistantEndMs", label: "Reply complete" },
+]
+
+export interface TurnMetricsTracker {
+  // The microphone heard voice
+  noteVoice: () => void
+  noteTypedInput: () => void
+  noteUserMessage: () => void
+  noteAssistantMessage: () => void
+  // Reply audio was scheduled to start this many milliseconds from now
+  noteAudioScheduled: (delayMs: number) => void
+  noteAssistantEnd: () => void
+  // Forget the open turn without reporting it
+  reset: () => void
+}
+
+interface OpenTurn {
+  startedAt: number
+  isTyped: boolean
+  userMessageAt: number | null
+  assistantMessageAt: number | null
+  firstAudioAt: number | null
+}
+
+/**
+ * Follow EVI's messages through each exchange and report its timings once it is over
+ * A turn is over at assistant_end, or when the next turn starts without one
+ */
+export const createTurnMetricsTracker = (
+  onTurn: (turn: TurnTimings) => void
+): TurnMetricsTracker => {
+  let lastVoiceAt: number | null = null
+  let turn: OpenTurn | null = null
+
+  const finish = (assistantEndAt: number | null) => {
+    if (!turn) return
+    const { startedAt } = turn
+    const since = (at: number | null) => (at === null ? null : at - startedAt)
+
+    onTurn({
+      at: startedAt,
+      isTyped: turn.isTyped,
+      userMessageMs: since(turn.userMessageAt),
+      assistantMessageMs: since(turn.assistantMessageAt),
+      firstAudioMs: since(turn.firstAudioAt),
+      assistantEndMs: since(assistantEndAt),
+    })
+    turn = null
+  }
+
+  return {
+    noteVoice: () => {
+      lastVoiceAt = Date.now()
+    },
+    noteTypedInput: () => {
+      finish(null)
+      turn = {
+        startedAt: Date.now(),
+        isTyped: true,
+        userMessageAt: null,
+        assistantMessageAt: null,
+        firstAudioAt: null,
+      }
+    },
+    noteUserMessage: () => {
+      const now = Date.now()
+
+      // EVI echoes typed input as a user_message
+      if (turn?.isTyped && turn.userMessageAt === null) {
+        turn.userMessageAt = now
+        return
+      }
+
+      // Several final transcripts before a reply are one long user turn
+      if (turn && turn.assistantMessageAt === null) {
+        turn.startedAt = lastVoiceAt ?? turn.startedAt
+        turn.userMessageAt = now
+        lastVoiceAt = null
+        return
+      }
+
+      finish(null)
+      turn = {
+        startedAt: lastVoiceAt ?? now,
+        isTyped: false,
+        userMessageAt: now,
+        assistantMessageAt: null,
+        firstAudioAt: null,
+      }
+      lastVoiceAt = null
+    },
+    noteAssistantMessage: () => {
+      if (turn && turn.assistantMessageAt === null) {
+        turn.assistantMessageAt = Date.now()
+      }
+    },
+    noteAudioScheduled: (delayMs) => {
+      if (turn && turn.firstAudioAt === null) {
+        turn.firstAudioAt = Date.now() + delayMs
+      }
+    },
+    noteAssistantEnd: () => {
+      finish(Date.now())
+    },
+    reset: () => {
+      turn = null
+      lastVoiceAt = null
+    },
+  }
+}
+
+/**
+ * Nearest-rank percentile, null for no values
+ */
+export const percentile = (values: number[], p: number): number | null => {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]
+}
+
+/**
+ * p50 and p95 of each stage over the turns where it happened
+ */
+export const summarizeTurns = (turns: TurnTimings[]) =>
+  TURN_STAGES.map(({ stage, label }) => {
+    const values = turns
+      .map((turn) => turn[stage])
+      .filter((value): value is number => value !== null)
+
+    return {
+      stage,
+      label,
+      count: values.length,
+      p50: percentile(values, 50),
+      p95: percentile(values, 95),
+    }
+  })
@@ -0,0 +1,289 @@
+import { vi } from "vitest"
+
+/**
+ * Stand-ins for the browser media APIs jsdom does not implement
+ * Only what the hook and its audio helpers touch is modelled
+ */
+
+class FakeAudioNode {
+  connections: unknown[] = []
+
+  connect(destination: unknown) {
+    this.connections.push(destination)
+    return destination
+  }
+
+  disconnect() {
+    this.connections = []
+  }
+}
+
+// Scheduled changes apply at once, tests read when they were due
+class FakeAudioParam {
+  scheduledAt: number | null = null
+
+  constructor(public value: number) {}
+
+  setValueAtTime(value: number, time: number) {
+    this.value = value
+    this.scheduledAt = time
+  }
+
+  cancelScheduledValues() {
+    this.scheduledAt = null
+  }
+}
+
+class FakeGainNode extends FakeAudioNode {
+  gain = new FakeAudioParam(1)
+}
+
+class FakeDelayNode extends FakeAudioNode {
+  delayTime = new FakeAudioParam(0)
+}
+
+class FakeAnalyserNode extends FakeAudioNode {
+  fftSize = 2048
+  smoothingTimeConstant = 0.8
+
+  get frequencyBinCount() {
+    return this.fftSize / 2
+  }
+
+  // Silence: all zeros
+  getFloatTimeDomainData(array: Float32Array) {
+    array.fill(0)
+  }
+
+  getByteFrequencyData(array: Uint8Array) {
+    array.fill(0)
+  }
+}
+
+export class FakeAudioBuffer {
+  private channels: Float32Array[]
+
+  constructor(
+    readonly numberOfChannels: number,
+    readonly length: number,
+    readonly sampleRate: number
+  ) {
+    this.channels = Array.from(
+      { length: numberOfChannels },
+      () => new Float32Array(length)
+    )
+  }
+
+  get duration() {
+    return this.length / this.sampleRate
+  }
+
+  copyToChannel(source: Float32Array, channel: number) {
+    this.channels[channel].set(source)
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel]
+  }
+}
+
+export class FakeAudioBufferSourceNode extends FakeAudioNode {
+  buffer: FakeAudioBuffer | null = null
+  onended: (() => void) | null = null
+  startTime: number | null = null
+  stopped = false
+
+  constructor(private context: FakeAudioContext) {
+    super()
+  }
+
+  start(when = 0) {
+    this.startTime = when
+    this.context.scheduled.push(this)
+  }
+
+  stop() {
+    this.stopped = true
+  }
+
+  get endTime() {
+    return (this.startTime ?? 0) + (this.buffer?.duration ?? 0)
+  }
+}
+
+export class FakeAudioContext {
+  state: AudioContextState = "running"
+  sampleRate = 48000
+  currentTime = 0
+  destination = new FakeAudioNode()
+  // Every source started on this context, in start order
+  scheduled: FakeAudioBufferSourceNode[] = []
+
+  constructor() {
+    fakeMedia.audioContexts.push(this)
+  }
+
+  createGain() {
+    return new FakeGainNode()
+  }
+
+  createAnalyser() {
+    return new FakeAnalyserNode()
+  }
+
+  createDelay() {
+    return new FakeDelayNode()
+  }
+
+  createMediaStreamSource() {
+    return new FakeAudioNode()
+  }
+
+  createMediaStreamDestination() {
+    return Object.assign(new FakeAudioNode(), { stream: new FakeMediaStream() })
+  }
+
+  createBuffer(channels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(channels, length, sampleRate)
+  }
+
+  createBufferSource() {
+    return new FakeAudioBufferSourceNode(this)
+  }
+
+  async resume() {
+    this.state = "running"
+  }
+
+  async close() {
+    this.state = "closed"
+  }
+
+  /**
+   * Move the audio clock forward, ending sources that finish on the way
+   */
+  advanceTime(seconds: number) {
+    this.currentTime += seconds
+    this.scheduled
+      .filter(
+        (source) =>
+          !source.stopped &&
+          source.onended &&
+          source.endTime <= this.currentTime
+      )
+      .forEach((source) => {
+        const onended = source.onended
+        source.onended = null
+        onended?.()
+      })
+  }
+}
+
+export class FakeMediaStreamTrack {
+  kind = "audio"
+  enabled = true
+  readyState: MediaStreamTrackState = "live"
+  onended: (() => void) | null = null
+
+  constructor(
+    readonly label = "Fake microphone",
+    readonly deviceId = "fake-mic"
+  ) {}
+
+  getSettings() {
+    return { deviceId: this.deviceId }
+  }
+
+  stop() {
+    this.readyState = "ended"
+  }
+}
+
+export class FakeMediaStream {
+  private tracks = [new FakeMediaStreamTrack()]
+
+  getTracks() {
+    return this.tracks
+  }
+
+  getAudioTracks() {
+    return this.tracks
+  }
+}
+
+export class FakeMediaRecorder {
+  static isTypeSupported = () => true
+
+  state: RecordingState = "inactive"
+  ondataavailable: ((event: { data: Blob }) => void) | null = null
+  onstop: (() => void) | null = null
+
+  constructor(
+    readonly stream: FakeMediaStream,
+    readonly options?: MediaRecorderOptions
+  ) {
+    fakeMedia.recorders.push(this)
+  }
+
+  start() {
+    this.state = "recording"
+  }
+
+  pause() {
+    this.state = "paused"
+  }
+
+  resume() {
+    this.state = "recording"
+  }
+
+  stop() {
+    this.state = "inactive"
+    this.onstop?.()
+  }
+
+  /**
+   * Deliver a chunk as if the timeslice elapsed
+   */
+  emitData(data: Blob) {
+    this.ondataavailable?.({ data })
+  }
+}
+
+export interface FakeMediaEnvironment {
+  audioContexts: FakeAudioContext[]
+  recorders: FakeMediaRecorder[]
+  getUserMedia: ReturnType<typeof vi.fn>
+}
+
+// Instances created since the last install, read by tests through this object
+export const fakeMedia: FakeMediaEnvironment = {
+  audioContexts: [],
+  recorders: [],
+  getUserMedia: vi.fn(),
+}
+
+/**
+ * Replace the browser media globals with fresh fakes
+ * Globals are restored by vitest's unstubGlobals after each test
+ */
+export const installFakeMedia = (): FakeMediaEnvironment => {
+  fakeMedia.audioContexts = []
+  fakeMedia.recorders = []
+  fakeMedia.getUserMedia = vi.fn(async () => new FakeMediaStream())
+
+  const mediaDevices = Object.assign(new EventTarget(), {
+    getUserMedia: fakeMedia.getUserMedia,
+    enumerateDevices: vi.fn(async () => []),
+  })
+
+  vi.stubGlobal("AudioContext", FakeAudioContext)
+  vi.stubGlobal("MediaStream", FakeMediaStream)
+  vi.stubGlobal("MediaRecorder", FakeMediaRecorder)
+  Object.defineProperty(navigator, "mediaDevices", {
+    value: mediaDevices,
+    configurable: true,
+  })
+
+  return fakeMedia
+}
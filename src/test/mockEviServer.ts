@@ -0,0 +1,260 @@
+import { AddressInfo } from "net"
+import { WebSocket, WebSocketServer } from "ws"
+import { EmotionScores, EviInboundMessage } from "@/types/hume"
+
+/**
+ * Local stand-in for the EVI chat WebSocket
+ * Every connection plays the next scripted session, so reconnects can be scripted too
+ */
+
+type Frame = Record<string, unknown>
+
+export type MockEviStep =
+  // Send an EVI frame to the client
+  | { kind: "send"; frame: EviInboundMessage | Frame }
+  // Wait until the client sends a message of this type
+  | { kind: "waitFor"; type: string }
+  | { kind: "delay"; ms: number }
+  // Close with a close frame
+  | { kind: "close"; code: number; reason?: string }
+  // Cut the TCP connection without a close frame
+  | { kind: "drop" }
+
+export type MockEviSession = MockEviStep[]
+
+export interface MockEviConnection {
+  url: URL
+  // Parsed JSON messages from the client, in arrival order
+  received: Frame[]
+  // Resolves once the client has sent a message of this type
+  waitForMessage: (type: string) => Promise<Frame>
+  // Resolves once the scripted session has played out
+  done: Promise<void>
+  isClosed: () => boolean
+}
+
+export interface MockEviServer {
+  url: string
+  connections: MockEviConnection[]
+  waitForConnection: (count: number) => Promise<MockEviConnection>
+  close: () => Promise<void>
+}
+
+const POLL_MS = 5
+const WAIT_TIMEOUT_MS = 5000
+
+/**
+ * Poll until a condition holds, the mock server has no event to wait on
+ */
+const waitUntil = async <T>(
+  read: () => T | undefined,
+  description: string
+): Promise<T> => {
+  const deadline = Date.now() + WAIT_TIMEOUT_MS
+  for (;;) {
+    const value = read()
+    if (value !== undefined) return value
+    if (Date.now() > deadline) {
+      throw new Error(`Mock EVI server timed out waiting for ${description}`)
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_MS))
+  }
+}
+
+/**
+ * Start a mock server on a free local port
+ * Connections beyond the scripted sessions stay open and silent
+ */
+export const createMockEviServer = async (
+  sessions: MockEviSession[]
+): Promise<MockEviServer> => {
+  const server = new WebSocketServer({ host: "127.0.0.1", port: 0 })
+  await new Promise<void>((resolve) => server.once("listening", resolve))
+  const { port } = server.address() as AddressInfo
+  const connections: MockEviConnection[] = []
+
+  server.on("connection", (socket: WebSocket, request) => {
+    const script = sessions[connections.length] ?? []
+    const received: Frame[] = []
+    let closed = false
+    socket.on("close", () => {
+      closed = true
+    })
+    socket.on("message", (data) => {
+      received.push(JSON.parse(data.toString()))
+    })
+
+    const waitForMessage = (type: string, from = 0) =>
+      waitUntil(
+        () => received.slice(from).find((message) => message.type === type),
+        `a "${type}" message`
+      )
+
+    /**
+     * Play the steps in order, waits only look at messages after the previous wait
+     */
+    const play = async () => {
+      let cursor = 0
+      for (const step of script) {
+        if (closed) return
+
+        switch (step.kind) {
+          case "send":
+            socket.send(JSON.stringify(step.frame))
+            break
+          case "waitFor": {
+            const message = await waitForMessage(step.type, cursor)
+            cursor = received.indexOf(message) + 1
+            break
+          }
+          case "delay":
+            await new Promise((resolve) => setTimeout(resolve, step.ms))
+            break
+          case "close":
+            socket.close(step.code, step.reason)
+            return
+          case "drop":
+            socket.terminate()
+            return
+        }
+      }
+    }
+
+    connections.push({
+      url: new URL(request.url ?? "/", `ws://127.0.0.1:${port}`),
+      received,
+      waitForMessage: (type) => waitForMessage(type),
+      done: play(),
+      isClosed: () => closed,
+    })
+  })
+
+  return {
+    url: `ws://127.0.0.1:${port}`,
+    connections,
+    waitForConnection: (count) =>
+      waitUntil(() => connections[count - 1], `connection ${count}`),
+    close: () =>
+      new Promise((resolve) => {
+        server.clients.forEach((client) => client.terminate())
+        server.close(() => resolve())
+      }),
+  }
+}
+
+/**
+ * Mono 16-bit WAV chunk of a quiet tone, like EVI's audio_output payloads
+ */
+export const createWavChunk = (
+  durationMs: number,
+  sampleRate = 24000
+): Uint8Array => {
+  const sampleCount = Math.round((sampleRate * durationMs) / 1000)
+  const bytes = new Uint8Array(44 + sampleCount * 2)
+  const view = new DataView(bytes.buffer)
+  const writeText = (offset: number, text: string) =>
+    [...text].forEach((char, i) =>
+      view.setUint8(offset + i, char.charCodeAt(0))
+    )
+
+  writeText(0, "RIFF")
+  view.setUint32(4, 36 + sampleCount * 2, true)
+  writeText(8, "WAVE")
+  writeText(12, "fmt ")
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, 1, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * 2, true)
+  view.setUint16(32, 2, true)
+  view.setUint16(34, 16, true)
+  writeText(36, "data")
+  view.setUint32(40, sampleCount * 2, true)
+  for (let i = 0; i < sampleCount; i++) {
+    view.setInt16(
+      44 + i * 2,
+      Math.round(Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 1000),
+      true
+    )
+  }
+
+  return bytes
+}
+
+const inference = (prosody?: EmotionScores) => ({
+  prosody: prosody ? { scores: prosody } : undefined,
+})
+
+/**
+ * Builders for the EVI frames a scripted session sends
+ */
+export const eviFrames = {
+  chatMetadata: (
+    chatId = "chat-1",
+    chatGroupId = "group-1"
+  ): EviInboundMessage => ({
+    type: "chat_metadata",
+    chat_id: chatId,
+    chat_group_id: chatGroupId,
+  }),
+  userMessage: (
+    content: string,
+    {
+      interim = false,
+      fromText = false,
+      prosody,
+    }: { interim?: boolean; fromText?: boolean; prosody?: EmotionScores } = {}
+  ): EviInboundMessage => ({
+    type: "user_message",
+    message: { role: "user", content },
+    models: inference(prosody),
+    from_text: fromText,
+    interim,
+  }),
+  assistantMessage: (
+    content: string,
+    { id = "reply-1", prosody }: { id?: string; prosody?: EmotionScores } = {}
+  ): EviInboundMessage => ({
+    type: "assistant_message",
+    id,
+    message: { role: "assistant", content },
+    models: inference(prosody),
+    from_text: false,
+  }),
+  audioOutput: (
+    wav: Uint8Array,
+    { id = "reply-1", index = 0 }: { id?: string; index?: number } = {}
+  ): EviInboundMessage => ({
+    type: "audio_output",
+    id,
+    index,
+    data: Buffer.from(wav).toString("base64"),
+  }),
+  assistantEnd: (): EviInboundMessage => ({ type: "assistant_end" }),
+  toolCall: (
+    name: string,
+    parameters: Record<string, unknown>,
+    { id = "call-1" }: { id?: string } = {}
+  ): EviInboundMessage => ({
+    type: "tool_call",
+    name,
+    parameters: JSON.stringify(parameters),
+    tool_call_id: id,
+  }),
+  userInterruption: (): EviInboundMessage => ({
+    type: "user_interruption",
+    time: Date.now(),
+  }),
+  error: (
+    message: string,
+    {
+      code = "E0000",
+      slug = "mock_error",
+    }: { code?: string; slug?: string } = {}
+  ): EviInboundMessage => ({ type: "error", code, slug, message }),
+}
+
+export const send = (frame: EviInboundMessage | Frame): MockEviStep => ({
+  kind: "send",
+  frame,
+})
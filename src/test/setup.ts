@@ -0,0 +1,34 @@
+import { afterEach } from "vitest"
+import { cleanup } from "@testing-library/react"
+
+afterEach(() => {
+  cleanup()
+})
+
+// jsdom has no layout, so there is nothing to scroll
+Element.prototype.scrollIntoView = () => {}
+
+// No canvas backend, components skip drawing when there is no context
+HTMLCanvasElement.prototype.getContext = () => null
+
+// Downloads click a temporary link, which jsdom would try to navigate
+HTMLAnchorElement.prototype.click = () => {}
+
+// jsdom's Blob has no text() or arrayBuffer(), which exports and tests read blobs with
+const readBlob = (blob: Blob, readAs: (reader: FileReader) => void) =>
+  new Promise<FileReader["result"]>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result)
+    reader.onerror = () => reject(reader.error)
+    readAs(reader)
+  })
+
+Blob.prototype.text ??= function (this: Blob) {
+  return readBlob(this, (reader) => reader.readAsText(this)) as Promise<string>
+}
+
+Blob.prototype.arrayBuffer ??= function (this: Blob) {
+  return readBlob(this, (reader) =>
+    reader.readAsArrayBuffer(this)
+  ) as Promise<ArrayBuffer>
+}
@@ -4,9 +4,17 @@
  */
 
 export interface HumeConfig {
-  apiKey: string;
   configId?: string;
+  configVersion?: number;
   baseUrl?: string;
+  resumedChatGroupId?: string;
+}
+
+export interface NamedEviConfig {
+  id: string;
+  name: string;
+  description?: string;
+  config: HumeConfig;
 }
 
 export interface AudioConfig {
@@ -22,17 +30,24 @@ export interface EmotionScore {
 
 export interface VoiceMessage {
   id: string;
-  type: 'user' | 'assistant';
+  type: 'user' | 'assistant' | 'tool';
   content: string;
   timestamp: Date;
   audioUrl?: string;
   emotions?: EmotionScore[];
   duration?: number;
+  isTyped?: boolean;
+  isTruncated?: boolean;
+  toolInvocation?: ToolInvocation;
 }
 
 export interface ConversationState {
   messages: VoiceMessage[];
   isRecording: boolean;
+  isMicPaused: boolean;
+  isUserSpeaking: boolean;
+  // Recording but the mic has delivered silence for several seconds
+  isInputSilent: boolean;
   isProcessing: boolean;
   isPlaying: boolean;
   currentAudio?: HTMLAudioElement;
@@ -50,9 +65,455 @@ export interface AudioRecordingState {
   stream: MediaStream | null;
 }
 
+export type CaptureMode = 'auto' | 'webm' | 'pcm';
+
+export type InputMode = 'toggle' | 'push-to-talk' | 'always-on';
+
 export interface VoiceSettings {
   microphoneEnabled: boolean;
   speakerEnabled: boolean;
   volume: number;
   autoPlay: boolean;
-} 
\ No newline at end of file
+  captureMode: CaptureMode;
+  pcmSampleRate: number;
+  inputMode: InputMode;
+  pushToTalkKey: string;
+  vadThresholdDb: number;
+  vadHangoverMs: number;
+  bargeInEnabled: boolean;
+  // null follows the system default device
+  inputDeviceId: string | null;
+  outputDeviceId: string | null;
+  // Memory for per-message replay audio, 0 turns replay off
+  replayAudioLimitMb: number;
+}
+
+// One analyser reading; the arrays are reused and only valid until the next frame
+export interface AudioLevels {
+  db: number;
+  // db mapped onto 0-1 for meters
+  level: number;
+  frequencies: Uint8Array;
+  waveform: Float32Array;
+}
+
+export interface AudioLevelFrame {
+  input: AudioLevels | null;
+  output: AudioLevels | null;
+}
+
+export type AudioLevelListener = (frame: AudioLevelFrame) => void;
+
+export interface AudioInputStats {
+  queuedChunks: number;
+  queuedBytes: number;
+  sentChunks: number;
+  sentBytes: number;
+  droppedChunks: number;
+  bufferedAmount: number;
+}
+
+/**
+ * EVI WebSocket protocol
+ * Inbound messages come from EVI, outbound messages are sent by the client
+ */
+
+export type EmotionScores = Record<string, number>;
+
+export interface ProsodyInference {
+  scores: EmotionScores;
+}
+
+export interface Inference {
+  prosody?: ProsodyInference;
+}
+
+export interface MillisecondInterval {
+  begin: number;
+  end: number;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'system' | 'tool' | 'all';
+  content?: string;
+  tool_call?: ToolCallMessage;
+  tool_result?: ToolResponseMessage | ToolErrorMessage;
+}
+
+export type ToolType = 'builtin' | 'function';
+
+export interface ChatMetadataMessage {
+  type: 'chat_metadata';
+  chat_id: string;
+  chat_group_id: string;
+  request_id?: string;
+  custom_session_id?: string;
+}
+
+export interface UserMessage {
+  type: 'user_message';
+  message: ChatMessage;
+  models: Inference;
+  time?: MillisecondInterval;
+  from_text?: boolean;
+  interim?: boolean;
+  custom_session_id?: string;
+}
+
+export interface AssistantMessage {
+  type: 'assistant_message';
+  id?: string;
+  message: ChatMessage;
+  models: Inference;
+  from_text?: boolean;
+  custom_session_id?: string;
+}
+
+export interface AudioOutputMessage {
+  type: 'audio_output';
+  id?: string;
+  data: string;
+  index?: number;
+  custom_session_id?: string;
+}
+
+export interface AssistantEndMessage {
+  type: 'assistant_end';
+  custom_session_id?: string;
+}
+
+export interface UserInterruptionMessage {
+  type: 'user_interruption';
+  time?: number;
+  custom_session_id?: string;
+}
+
+export interface ToolCallMessage {
+  type: 'tool_call';
+  name: string;
+  parameters: string;
+  tool_call_id: string;
+  // Missing means a function tool whose result EVI waits for
+  tool_type?: ToolType;
+  response_required?: boolean;
+  custom_session_id?: string;
+}
+
+export interface ToolResponseMessage {
+  type: 'tool_response';
+  tool_call_id: string;
+  content: string;
+  tool_name?: string;
+  tool_type?: ToolType;
+  custom_session_id?: string;
+}
+
+export interface ToolErrorMessage {
+  type: 'tool_error';
+  tool_call_id: string;
+  error: string;
+  content?: string;
+  code?: string;
+  level?: 'warn';
+  tool_type?: ToolType;
+  custom_session_id?: string;
+}
+
+export interface WebSocketErrorMessage {
+  type: 'error';
+  code?: string;
+  slug?: string;
+  message: string;
+  request_id?: string;
+  custom_session_id?: string;
+}
+
+export type EviInboundMessage =
+  | ChatMetadataMessage
+  | UserMessage
+  | AssistantMessage
+  | AudioOutputMessage
+  | AssistantEndMessage
+  | UserInterruptionMessage
+  | ToolCallMessage
+  | ToolResponseMessage
+  | ToolErrorMessage
+  | WebSocketErrorMessage;
+
+// A well-formed frame of a type the client does not handle, e.g. assistant_prosody
+export interface UnknownEviMessage {
+  type: 'unknown';
+  originalType: string;
+  raw: Record<string, unknown>;
+}
+
+export interface SessionSettingsMessage {
+  type: 'session_settings';
+  audio?: {
+    encoding: string;
+    sample_rate: number;
+    channels: number;
+  };
+  system_prompt?: string;
+  context?: {
+    text: string;
+    type: 'editable' | 'persistent' | 'temporary';
+  };
+  variables?: Record<string, string | number | boolean>;
+  custom_session_id?: string;
+}
+
+export interface AudioInputMessage {
+  type: 'audio_input';
+  data: string;
+  custom_session_id?: string;
+}
+
+export interface UserInputMessage {
+  type: 'user_input';
+  text: string;
+  custom_session_id?: string;
+}
+
+export interface AssistantInputMessage {
+  type: 'assistant_input';
+  text: string;
+  custom_session_id?: string;
+}
+
+export interface PauseAssistantMessage {
+  type: 'pause_assistant_message';
+  custom_session_id?: string;
+}
+
+export interface ResumeAssistantMessage {
+  type: 'resume_assistant_message';
+  custom_session_id?: string;
+}
+
+export type EviOutboundMessage =
+  | SessionSettingsMessage
+  | AudioInputMessage
+  | UserInputMessage
+  | AssistantInputMessage
+  | ToolResponseMessage
+  | ToolErrorMessage
+  | PauseAssistantMessage
+  | ResumeAssistantMessage;
+
+// Lifecycle of the EVI WebSocket, as shown in the header
+export type ConnectionState =
+  | { status: 'idle' }
+  | { status: 'connecting' }
+  | { status: 'open' }
+  | {
+      status: 'reconnecting';
+      attempt: number;
+      // null while paused for the browser to come back online
+      nextRetryAt: number | null;
+      isOffline: boolean;
+    }
+  | { status: 'closing' }
+  | { status: 'failed'; reason: string };
+
+// One line of a recorded EVI traffic trace, t is milliseconds since recording started
+export type TrafficTraceEntry =
+  | { t: number; dir: 'in' | 'out'; message: unknown }
+  // Frames that were not valid JSON are kept verbatim
+  | { t: number; dir: 'in' | 'out'; raw: string }
+  | {
+      t: number;
+      dir: 'event';
+      event: 'open' | 'close';
+      // Chat URL without the access token
+      url?: string;
+      code?: number;
+      reason?: string;
+    };
+
+export type TraceReplayState =
+  | { status: 'idle' }
+  // speed 0 replays without waiting between frames
+  | { status: 'playing'; position: number; total: number; speed: number };
+
+// Frames and their size in characters, which matches bytes for EVI's ASCII JSON
+export interface SocketTrafficStats {
+  framesIn: number;
+  framesOut: number;
+  bytesIn: number;
+  bytesOut: number;
+}
+
+// Point-in-time readings shown by the diagnostics overlay
+export interface DiagnosticsSnapshot {
+  connectionState: ConnectionState;
+  chatIds: EviChatIds | null;
+  // null until the first connection picks a mode
+  captureMode: 'webm' | 'pcm' | null;
+  traffic: SocketTrafficStats;
+  // Final user_message to the first assistant_message of the latest turn
+  responseLatencyMs: number | null;
+  // Epoch milliseconds, null while no socket is open
+  lastInboundAt: number | null;
+  audioInput: AudioInputStats;
+  playbackBufferedSeconds: number;
+}
+
+// Timings of one exchange in milliseconds from the end of the user's speech,
+// or from sending a typed message; a stage that never happened is null
+export interface TurnTimings {
+  // Epoch milliseconds when the user stopped speaking
+  at: number;
+  isTyped: boolean;
+  userMessageMs: number | null;
+  assistantMessageMs: number | null;
+  // When the first reply audio was heard, not when it arrived
+  firstAudioMs: number | null;
+  assistantEndMs: number | null;
+}
+
+export interface SessionMetrics {
+  turns: TurnTimings[];
+  reconnects: number;
+  droppedChunks: number;
+  playbackErrors: number;
+}
+
+export type TelemetryEvent =
+  | ({ type: 'turn' } & TurnTimings)
+  | { type: 'reconnect'; at: number; attempt: number }
+  | { type: 'dropped_chunks'; at: number; count: number }
+  | { type: 'playback_error'; at: number; message: string };
+
+// Error body of /api/hume/token, code tells configuration problems from outages
+export interface TokenErrorResponse {
+  error: string;
+  code: 'missing_keys' | 'rejected_keys' | 'token_unavailable';
+}
+
+// Body of a POST to /api/telemetry
+export interface TelemetryBatch {
+  // Random per page load, groups a client's events without identifying the user
+  clientId: string;
+  events: TelemetryEvent[];
+}
+
+export type AppErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'mic-permission-denied'
+  | 'device-not-found'
+  | 'unsupported-browser'
+  | 'network'
+  // An EVI `error` message
+  | 'server'
+  | 'unknown';
+
+export type RecoveryAction =
+  'retry-connection' | 'grant-microphone' | 'check-api-key' | 'choose-device';
+
+// A problem shown to the user, kept apart from the transcript
+export interface AppError {
+  id: string;
+  kind: AppErrorKind;
+  // Warnings are resolved already, e.g. by falling back to the default device
+  severity: 'error' | 'warning';
+  title: string;
+  message: string;
+  // EVI's error code, or the WebSocket close code
+  code?: string;
+  actions: RecoveryAction[];
+  at: number;
+}
+
+export interface EviChatIds {
+  chatId: string;
+  chatGroupId: string;
+}
+
+export interface ConversationSession {
+  id: string;
+  title: string;
+  chatId?: string;
+  chatGroupId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: VoiceMessage[];
+}
+
+export interface ConversationSessionSummary extends Omit<
+  ConversationSession,
+  'messages'
+> {
+  messageCount: number;
+}
+
+// Versioned file format for exported conversations, dates are ISO 8601 strings
+export interface ConversationExportMessage {
+  id: string;
+  type: VoiceMessage['type'];
+  content: string;
+  timestamp: string;
+  // Seconds of recorded audio for the turn
+  duration?: number;
+  emotions?: EmotionScore[];
+  isTyped?: boolean;
+  isTruncated?: boolean;
+  toolInvocation?: ToolInvocation;
+  // Path of the turn's audio inside an export archive
+  audioFile?: string;
+}
+
+export interface ConversationExport {
+  format: 'freja-conversation';
+  version: 1;
+  exportedAt: string;
+  session: {
+    id: string;
+    title: string;
+    chatId?: string;
+    chatGroupId?: string;
+    createdAt: string;
+    updatedAt: string;
+  };
+  messages: ConversationExportMessage[];
+}
+
+export interface JsonSchema {
+  type?:
+    'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean | null>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+export interface ToolCallContext {
+  toolCallId: string;
+  signal: AbortSignal;
+}
+
+export interface ClientTool {
+  name: string;
+  description?: string;
+  parameters: JsonSchema;
+  handler: (
+    args: Record<string, unknown>,
+    context: ToolCallContext
+  ) => Promise<unknown>;
+}
+
+export interface ToolInvocation {
+  toolCallId: string;
+  name: string;
+  arguments: string;
+  status: 'running' | 'succeeded' | 'failed';
+  result?: string;
+  error?: string;
+}
@@ -0,0 +1,21 @@
+import { fileURLToPath } from "url"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  oxc: {
+    jsx: { runtime: "automatic" },
+  },
+  test: {
+    environment: "jsdom",
+    setupFiles: ["./src/test/setup.ts"],
+    unstubGlobals: true,
+    restoreMocks: true,
+    // The hook logs every frame, only show output for failing tests
+    silent: "passed-only",
+  },
+})